@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConcurrencyLimiter } from './concurrency-limiter';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ConcurrencyLimiter', () => {
+  it('runs at most `concurrency` tasks at once and starts queued tasks in order', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const started: number[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await Promise.all(
+      [30, 10, 10, 10, 10].map((ms, index) =>
+        limiter.run(async () => {
+          started.push(index);
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await sleep(ms);
+          running--;
+          return index;
+        })
+      )
+    );
+
+    assert.deepEqual(results, [0, 1, 2, 3, 4]);
+    assert.deepEqual(started, [0, 1, 2, 3, 4]);
+    assert.equal(maxRunning, 2);
+  });
+
+  it('frees the slot of a failed task', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    await assert.rejects(
+      limiter.run(async () => {
+        throw new Error('courier down');
+      }),
+      /courier down/
+    );
+    assert.equal(await limiter.run(async () => 'next'), 'next');
+  });
+
+  it('rejects a concurrency below one', () => {
+    assert.throws(() => new ConcurrencyLimiter(0), /Concurrency must be a positive integer/);
+    assert.throws(() => new ConcurrencyLimiter(1.5), /Concurrency must be a positive integer/);
+  });
+});
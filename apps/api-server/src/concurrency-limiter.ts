@@ -0,0 +1,36 @@
+/**
+ * Limits how many async tasks run at the same time, queuing the rest in FIFO order
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(private concurrency: number) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('Concurrency must be a positive integer');
+    }
+  }
+
+  /**
+   * Run task once a slot is free
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.concurrency) {
+      // A finishing task hands its slot over directly, so active stays unchanged
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
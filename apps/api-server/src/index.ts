@@ -2,13 +2,15 @@ import express, { Express, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
-import { OneShipService } from './service';
-import { createRouter } from './routes';
+import path from 'path';
+import { OneShipService, OneShipServiceOptions } from './service';
+import { createRouter, RawBodyRequest } from './routes';
 import {
   SFExpressProvider,
   YTOProvider,
   ZTOProvider,
 } from '@oneship/providers';
+import { JsonFileRepository } from '@oneship/storage';
 
 dotenv.config();
 
@@ -18,10 +20,32 @@ const port = process.env.PORT || 3000;
 // Middleware
 app.use(helmet());
 app.use(cors());
-app.use(express.json());
+app.use(
+  express.json({
+    limit: '10mb', // Batch order requests carry thousands of orders
+    verify: (req, res, buf) => {
+      // Courier push notifications are signed over the exact request bytes
+      (req as RawBodyRequest).rawBody = buf;
+    },
+  })
+);
+
+// Persist state to JSON files when a data directory is configured, otherwise keep it in memory
+const dataDir = process.env.ONESHIP_DATA_DIR;
+const storage: OneShipServiceOptions = dataDir
+  ? {
+      orders: new JsonFileRepository(path.join(dataDir, 'orders.json')),
+      webhooks: new JsonFileRepository(path.join(dataDir, 'webhooks.json')),
+      freeShippingNotifications: new JsonFileRepository(path.join(dataDir, 'free-shipping.json')),
+      pickups: new JsonFileRepository(path.join(dataDir, 'pickups.json')),
+      workflowExecutions: new JsonFileRepository(path.join(dataDir, 'workflow-executions.json')),
+      workflowDefinitions: new JsonFileRepository(path.join(dataDir, 'workflow-definitions.json')),
+      webhookDeliveries: new JsonFileRepository(path.join(dataDir, 'webhook-deliveries.json')),
+    }
+  : {};
 
 // Initialize service
-const service = new OneShipService();
+const service = new OneShipService(storage);
 
 // Register providers
 service.registerProvider(new SFExpressProvider());
@@ -33,6 +57,27 @@ service.startFreeShippingListeners().catch((error) => {
   console.error('Failed to start free shipping listeners:', error);
 });
 
+// Poll couriers for orders that are still on their way
+service.startTrackingPoller();
+
+// Resume workflow executions interrupted by the last shutdown
+service.recoverWorkflows().then((count) => {
+  if (count > 0) {
+    console.log(`Resumed ${count} workflow execution(s)`);
+  }
+}).catch((error) => {
+  console.error('Failed to resume workflow executions:', error);
+});
+
+// Resume webhook deliveries still waiting for a retry
+service.resumeWebhookDeliveries().then((count) => {
+  if (count > 0) {
+    console.log(`Resumed ${count} pending webhook deliver${count === 1 ? 'y' : 'ies'}`);
+  }
+}).catch((error) => {
+  console.error('Failed to resume webhook deliveries:', error);
+});
+
 // Routes
 app.use('/v1', createRouter(service));
 
@@ -51,7 +96,15 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
 });
 
 // Start server
-app.listen(port, () => {
+const server = app.listen(port, () => {
   console.log(`OneShip API Server running on port ${port}`);
 });
 
+// Stop background work on shutdown
+const shutdown = () => {
+  service.stop();
+  server.close(() => process.exit(0));
+};
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
+
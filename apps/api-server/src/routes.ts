@@ -1,13 +1,34 @@
 import { Router, Request, Response } from 'express';
 import { OneShipService } from './service';
-import { API_ROUTES } from '@oneship/api';
+import { API_ROUTES, TENANT_HEADER } from '@oneship/api';
 import {
   CreateOrderApiRequest,
+  BatchCreateOrderApiRequest,
+  BatchCreateOrderApiResponse,
   QueryOrderApiRequest,
+  RateQuoteApiRequest,
   WebhookSubscriptionRequest,
+  WebhookSubscriptionUpdateRequest,
+  WebhookDeliveryStatus,
+  OrderWorkflowRules,
   ProviderConfigRequest,
   ApiResponse,
 } from '@oneship/api';
+import {
+  ProviderId,
+  RoutingRules,
+  LabelFormat,
+  SchedulePickupRequest,
+  WorkflowDefinition,
+  WorkflowExecutionFilter,
+  WorkflowGraphFormat,
+  WorkflowStepStatus,
+} from '@oneship/core';
+
+/**
+ * Request with the unparsed body kept by the JSON body parser
+ */
+export type RawBodyRequest = Request & { rawBody?: Buffer };
 
 export function createRouter(service: OneShipService): Router {
   const router = Router();
@@ -29,8 +50,11 @@ export function createRouter(service: OneShipService): Router {
   router.post(API_ROUTES.CREATE_ORDER, authenticate, async (req: Request, res: Response) => {
     try {
       const request = req.body as CreateOrderApiRequest;
-      const { webhookUrl, ...orderRequest } = request;
-      const order = await service.createOrder(orderRequest, webhookUrl);
+      const { webhookUrl, workflow, ...orderRequest } = request;
+      const order = await service.createOrder(orderRequest, webhookUrl, {
+        workflow,
+        tenantId: req.header(TENANT_HEADER),
+      });
       res.json({
         success: true,
         data: order,
@@ -43,10 +67,31 @@ export function createRouter(service: OneShipService): Router {
     }
   });
 
+  router.post(API_ROUTES.CREATE_ORDER_BATCH, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { orders, concurrency } = req.body as BatchCreateOrderApiRequest;
+      const results = await service.createOrderBatch(orders, concurrency, req.header(TENANT_HEADER));
+      const succeeded = results.filter((result) => result.success).length;
+      res.json({
+        success: true,
+        data: {
+          results,
+          succeeded,
+          failed: results.length - succeeded,
+        },
+      } as ApiResponse<BatchCreateOrderApiResponse>);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
   router.get(API_ROUTES.GET_ORDER, authenticate, async (req: Request, res: Response) => {
     try {
       const { orderId } = req.params;
-      const order = service.getOrder(orderId);
+      const order = await service.getOrder(orderId);
       if (!order) {
         return res.status(404).json({
           success: false,
@@ -97,6 +142,157 @@ export function createRouter(service: OneShipService): Router {
     }
   });
 
+  router.get(API_ROUTES.GET_ORDER_LABEL, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { orderId } = req.params;
+      const format = ((req.query.format as string) || 'pdf') as LabelFormat;
+      const label = await service.getLabel(orderId, format);
+      res
+        .type(label.contentType)
+        .attachment(`${label.trackingNumber}.${label.format}`)
+        .send(label.content);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  // Rates
+  router.post(API_ROUTES.QUOTE_RATES, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { providers, ...quoteRequest } = req.body as RateQuoteApiRequest;
+      const result = await service.quoteRates(quoteRequest, providers);
+      res.json({
+        success: true,
+        data: result,
+      } as ApiResponse<typeof result>);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  // Routing
+  router.get(API_ROUTES.GET_ROUTING_RULES, authenticate, (req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: service.getRoutingRules(),
+    });
+  });
+
+  router.put(API_ROUTES.UPDATE_ROUTING_RULES, authenticate, (req: Request, res: Response) => {
+    try {
+      const rules = req.body as RoutingRules;
+      service.setRoutingRules(rules);
+      res.json({
+        success: true,
+        data: rules,
+      } as ApiResponse<RoutingRules>);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.get(API_ROUTES.GET_ORDER_WORKFLOW_RULES, authenticate, (req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: service.getOrderWorkflowRules(),
+    });
+  });
+
+  router.put(API_ROUTES.UPDATE_ORDER_WORKFLOW_RULES, authenticate, async (req: Request, res: Response) => {
+    try {
+      const rules = req.body as OrderWorkflowRules;
+      await service.setOrderWorkflowRules(rules);
+      res.json({
+        success: true,
+        data: rules,
+      } as ApiResponse<OrderWorkflowRules>);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  // Pickups
+  router.post(API_ROUTES.SCHEDULE_PICKUP, authenticate, async (req: Request, res: Response) => {
+    try {
+      const request = req.body as SchedulePickupRequest;
+      const pickup = await service.schedulePickup(request);
+      res.json({
+        success: true,
+        data: pickup,
+      } as ApiResponse<typeof pickup>);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.get(API_ROUTES.LIST_PICKUPS, authenticate, async (req: Request, res: Response) => {
+    try {
+      const pickups = await service.listPickups();
+      res.json({
+        success: true,
+        data: pickups,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.get(API_ROUTES.GET_PICKUP, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { pickupId } = req.params;
+      const pickup = await service.getPickup(pickupId);
+      if (!pickup) {
+        return res.status(404).json({
+          success: false,
+          error: 'Pickup not found',
+        });
+      }
+      res.json({
+        success: true,
+        data: pickup,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.post(API_ROUTES.CANCEL_PICKUP, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { pickupId } = req.params;
+      await service.cancelPickup(pickupId);
+      res.json({
+        success: true,
+        message: 'Pickup cancelled',
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
   // Providers
   router.get(API_ROUTES.LIST_PROVIDERS, authenticate, (req: Request, res: Response) => {
     // Return list of available providers
@@ -133,6 +329,23 @@ export function createRouter(service: OneShipService): Router {
     }
   );
 
+  // Carrier push notifications are authenticated by the courier's signature, not an API key
+  router.post(API_ROUTES.CARRIER_CALLBACK, async (req: Request, res: Response) => {
+    try {
+      const { providerId } = req.params;
+      const acknowledgement = await service.handleCarrierCallback(providerId as ProviderId, {
+        headers: req.headers,
+        body: (req as RawBodyRequest).rawBody?.toString('utf8') || '',
+      });
+      res.json(acknowledgement);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
   // Webhooks
   router.post(API_ROUTES.CREATE_WEBHOOK, authenticate, async (req: Request, res: Response) => {
     try {
@@ -150,36 +363,431 @@ export function createRouter(service: OneShipService): Router {
     }
   });
 
-  router.get(API_ROUTES.LIST_WEBHOOKS, authenticate, (req: Request, res: Response) => {
-    const webhooks = service.listWebhooks();
-    res.json({
-      success: true,
-      data: webhooks,
-    });
+  router.get(API_ROUTES.LIST_WEBHOOKS, authenticate, async (req: Request, res: Response) => {
+    try {
+      const webhooks = await service.listWebhooks();
+      res.json({
+        success: true,
+        data: webhooks,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
   });
 
-  router.get(API_ROUTES.GET_WEBHOOK, authenticate, (req: Request, res: Response) => {
-    const { webhookId } = req.params;
-    const webhook = service.getWebhook(webhookId);
-    if (!webhook) {
-      return res.status(404).json({
+  router.get(API_ROUTES.GET_WEBHOOK, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { webhookId } = req.params;
+      const webhook = await service.getWebhook(webhookId);
+      if (!webhook) {
+        return res.status(404).json({
+          success: false,
+          error: 'Webhook not found',
+        });
+      }
+      res.json({
+        success: true,
+        data: webhook,
+      });
+    } catch (error) {
+      res.status(400).json({
         success: false,
-        error: 'Webhook not found',
+        error: (error as Error).message,
       });
     }
-    res.json({
-      success: true,
-      data: webhook,
-    });
   });
 
-  router.delete(API_ROUTES.DELETE_WEBHOOK, authenticate, (req: Request, res: Response) => {
-    const { webhookId } = req.params;
-    service.deleteWebhook(webhookId);
-    res.json({
-      success: true,
-      message: 'Webhook deleted',
-    });
+  router.patch(API_ROUTES.UPDATE_WEBHOOK, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { webhookId } = req.params;
+      if (!(await service.getWebhook(webhookId))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Webhook not found',
+        });
+      }
+
+      const request = req.body as WebhookSubscriptionUpdateRequest;
+      const webhook = await service.updateWebhook(webhookId, request);
+      res.json({
+        success: true,
+        data: webhook,
+      } as ApiResponse<typeof webhook>);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.post(API_ROUTES.TEST_WEBHOOK, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { webhookId } = req.params;
+      if (!(await service.getWebhook(webhookId))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Webhook not found',
+        });
+      }
+
+      const result = await service.testWebhook(webhookId);
+      res.json({
+        success: true,
+        data: result,
+      } as ApiResponse<typeof result>);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.delete(API_ROUTES.DELETE_WEBHOOK, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { webhookId } = req.params;
+      await service.deleteWebhook(webhookId);
+      res.json({
+        success: true,
+        message: 'Webhook deleted',
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.get(API_ROUTES.LIST_WEBHOOK_DELIVERIES, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { webhookId } = req.params;
+      const status = req.query.status as WebhookDeliveryStatus | undefined;
+      if (status && !Object.values(WebhookDeliveryStatus).includes(status)) {
+        return res.status(400).json({
+          success: false,
+          error: `Unsupported delivery status: ${status}`,
+        });
+      }
+
+      const webhook = await service.getWebhook(webhookId);
+      if (!webhook) {
+        return res.status(404).json({
+          success: false,
+          error: 'Webhook not found',
+        });
+      }
+
+      const deliveries = await service.listWebhookDeliveries(webhookId, status);
+      res.json({
+        success: true,
+        data: deliveries,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.post(API_ROUTES.REDELIVER_WEBHOOK, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { webhookId, deliveryId } = req.params;
+      const delivery = await service.redeliverWebhook(webhookId, deliveryId);
+      res.json({
+        success: true,
+        data: delivery,
+      } as ApiResponse<typeof delivery>);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  // Workflows
+  router.post(API_ROUTES.CREATE_WORKFLOW, authenticate, async (req: Request, res: Response) => {
+    try {
+      const workflow = await service.createWorkflow(req.body as WorkflowDefinition);
+      res.json({
+        success: true,
+        data: workflow,
+      } as ApiResponse<WorkflowDefinition>);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.get(API_ROUTES.LIST_WORKFLOWS, authenticate, async (req: Request, res: Response) => {
+    try {
+      const workflows = await service.listWorkflows();
+      res.json({
+        success: true,
+        data: workflows,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.get(API_ROUTES.GET_WORKFLOW, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { workflowId } = req.params;
+      const version = req.query.version === undefined ? undefined : Number(req.query.version);
+      if (version !== undefined && !Number.isInteger(version)) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid workflow version: ${req.query.version}`,
+        });
+      }
+
+      const workflow = await service.getWorkflow(workflowId, version);
+      if (!workflow) {
+        return res.status(404).json({
+          success: false,
+          error: 'Workflow not found',
+        });
+      }
+      res.json({
+        success: true,
+        data: workflow,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.put(API_ROUTES.UPDATE_WORKFLOW, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { workflowId } = req.params;
+      if (!(await service.getWorkflow(workflowId))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Workflow not found',
+        });
+      }
+
+      // The workflow ID comes from the path when the body leaves it out
+      const workflow = await service.updateWorkflow(workflowId, {
+        id: workflowId,
+        ...req.body,
+      } as WorkflowDefinition);
+      res.json({
+        success: true,
+        data: workflow,
+      } as ApiResponse<WorkflowDefinition>);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.delete(API_ROUTES.DELETE_WORKFLOW, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { workflowId } = req.params;
+      if (!(await service.getWorkflow(workflowId))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Workflow not found',
+        });
+      }
+
+      await service.deleteWorkflow(workflowId);
+      res.json({
+        success: true,
+        message: 'Workflow deleted',
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.get(API_ROUTES.LIST_WORKFLOW_VERSIONS, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { workflowId } = req.params;
+      const versions = await service.listWorkflowVersions(workflowId);
+      if (!versions) {
+        return res.status(404).json({
+          success: false,
+          error: 'Workflow not found',
+        });
+      }
+      res.json({
+        success: true,
+        data: versions,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.get(API_ROUTES.GET_WORKFLOW_GRAPH, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { workflowId } = req.params;
+      const format = (req.query.format || 'mermaid') as WorkflowGraphFormat;
+      if (!['mermaid', 'dot'].includes(format)) {
+        return res.status(400).json({
+          success: false,
+          error: `Unsupported graph format: ${req.query.format}`,
+        });
+      }
+      const version = req.query.version === undefined ? undefined : Number(req.query.version);
+      if (version !== undefined && !Number.isInteger(version)) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid workflow version: ${req.query.version}`,
+        });
+      }
+
+      const graph = await service.getWorkflowGraph(workflowId, format, version);
+      if (graph === undefined) {
+        return res.status(404).json({
+          success: false,
+          error: 'Workflow not found',
+        });
+      }
+      res.json({
+        success: true,
+        data: graph,
+      } as ApiResponse<string>);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.get(API_ROUTES.LIST_WORKFLOW_EXECUTIONS, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { workflowId, parentExecutionId, orderId, status, startedAfter, startedBefore } = req.query as Record<
+        string,
+        string | undefined
+      >;
+      if (status && !Object.values(WorkflowStepStatus).includes(status as WorkflowStepStatus)) {
+        return res.status(400).json({
+          success: false,
+          error: `Unsupported execution status: ${status}`,
+        });
+      }
+
+      const filter: WorkflowExecutionFilter = {
+        workflowId,
+        parentExecutionId,
+        orderId,
+        status: status as WorkflowStepStatus | undefined,
+        startedAfter: startedAfter ? new Date(startedAfter) : undefined,
+        startedBefore: startedBefore ? new Date(startedBefore) : undefined,
+      };
+      if ([filter.startedAfter, filter.startedBefore].some((date) => date && isNaN(date.getTime()))) {
+        return res.status(400).json({
+          success: false,
+          error: 'startedAfter and startedBefore must be ISO 8601 dates',
+        });
+      }
+
+      const executions = await service.listWorkflowExecutions(filter);
+      res.json({
+        success: true,
+        data: executions,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.get(API_ROUTES.GET_WORKFLOW_EXECUTION, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { executionId } = req.params;
+      const execution = await service.getWorkflowExecution(executionId);
+      if (!execution) {
+        return res.status(404).json({
+          success: false,
+          error: 'Execution not found',
+        });
+      }
+      res.json({
+        success: true,
+        data: execution,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.post(API_ROUTES.CANCEL_WORKFLOW_EXECUTION, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { executionId } = req.params;
+      if (!(await service.getWorkflowExecution(executionId))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Execution not found',
+        });
+      }
+
+      const execution = await service.cancelWorkflowExecution(executionId);
+      res.json({
+        success: true,
+        data: execution,
+      } as ApiResponse<typeof execution>);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  router.post(API_ROUTES.RERUN_WORKFLOW_EXECUTION, authenticate, async (req: Request, res: Response) => {
+    try {
+      const { executionId } = req.params;
+      if (!(await service.getWorkflowExecution(executionId))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Execution not found',
+        });
+      }
+
+      const execution = await service.rerunWorkflowExecution(executionId);
+      res.json({
+        success: true,
+        data: execution,
+      } as ApiResponse<typeof execution>);
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
   });
 
   // Free Shipping
@@ -203,12 +811,19 @@ export function createRouter(service: OneShipService): Router {
     }
   );
 
-  router.get(API_ROUTES.LIST_FREE_SHIPPING, authenticate, (req: Request, res: Response) => {
-    const notifications = service.listFreeShippingNotifications();
-    res.json({
-      success: true,
-      data: notifications,
-    });
+  router.get(API_ROUTES.LIST_FREE_SHIPPING, authenticate, async (req: Request, res: Response) => {
+    try {
+      const notifications = await service.listFreeShippingNotifications();
+      res.json({
+        success: true,
+        data: notifications,
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: (error as Error).message,
+      });
+    }
   });
 
   return router;
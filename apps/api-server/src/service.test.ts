@@ -0,0 +1,596 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { IncomingHttpHeaders, createServer } from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  Address,
+  CreateOrderRequest,
+  CreateOrderResponse,
+  OrderStatus,
+  OrderStatusSource,
+  PickupStatus,
+  RateQuoteRequest,
+  WEBHOOK_HEADERS,
+  WebhookEventType,
+  computeWebhookSignature,
+} from '@oneship/core';
+import { SFExpressProvider, YTOProvider, ZTOProvider } from '@oneship/providers';
+import { WebhookSubscription } from '@oneship/api';
+import { InMemoryRepository, JsonFileRepository } from '@oneship/storage';
+import { OneShipService, OneShipServiceOptions } from './service';
+
+const sender: Address = { name: 'Sender', phone: '13800000000', address: '1 Nanjing Rd', province: '上海' };
+const recipient: Address = { name: 'Recipient', phone: '13900000000', address: '2 Tianhe Rd', province: '广东' };
+
+const items = [{ name: 'Shoes', quantity: 1, weight: 1 }];
+
+const quoteRequest: RateQuoteRequest = {
+  from: sender,
+  to: recipient,
+  items,
+};
+
+/**
+ * Service with the mock SF Express, YTO and ZTO providers configured
+ */
+async function createService(options: OneShipServiceOptions = {}): Promise<OneShipService> {
+  const service = new OneShipService(options);
+  for (const provider of [new SFExpressProvider(), new YTOProvider(), new ZTOProvider()]) {
+    service.registerProvider(provider);
+    await service.configureProvider(provider.id, { id: provider.id, apiKey: 'key' });
+  }
+  return service;
+}
+
+/**
+ * Webhook calls received by a local HTTP server
+ */
+interface Receiver {
+  url: string;
+  received: Array<{ headers: IncomingHttpHeaders; body: string; event: string }>;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a webhook receiver answering every call with `status` and `responseBody`
+ */
+async function startReceiver(status: number = 204, responseBody: string = ''): Promise<Receiver> {
+  const received: Receiver['received'] = [];
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => {
+      received.push({ headers: request.headers, body, event: JSON.parse(body).event });
+      response.writeHead(status).end(responseBody);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`,
+    received,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Wait until `check` passes, failing with its last error after a second
+ */
+async function eventually(check: () => void | Promise<void>): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await check();
+    } catch (error) {
+      if (attempt >= 100) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+}
+
+/**
+ * SF Express route push for `routes`, signed with base64(md5(body + checkword))
+ */
+function sfPush(routes: Array<Record<string, string>>, checkword: string = 'checkword') {
+  const body = JSON.stringify({ WaybillRoute: routes });
+  const digest = createHash('md5').update(body + checkword, 'utf8').digest('base64');
+  return { headers: { msgdigest: digest }, body };
+}
+
+describe('quoteRates', () => {
+  it('quotes every configured courier, cheapest first', async () => {
+    const service = await createService();
+    try {
+      const { quotes, failures } = await service.quoteRates(quoteRequest);
+
+      assert.deepEqual(
+        quotes.map((quote) => [quote.provider, quote.price]),
+        [
+          ['zto', 9],
+          ['yto', 10],
+          ['sf-express', 18],
+        ]
+      );
+      assert.deepEqual(failures, []);
+    } finally {
+      service.stop();
+    }
+  });
+
+  it('only quotes the requested couriers and reports the ones that fail', async () => {
+    const service = await createService();
+    try {
+      const { quotes, failures } = await service.quoteRates({ ...quoteRequest, items: [] }, ['zto']);
+
+      assert.deepEqual(quotes, []);
+      assert.deepEqual(failures, [{ provider: 'zto', error: 'Invalid rate quote request: missing required fields' }]);
+    } finally {
+      service.stop();
+    }
+  });
+});
+
+describe('createOrder with automatic courier selection', () => {
+  it('books the courier picked by the routing rules and records the decision on the order', async () => {
+    const service = await createService();
+    try {
+      service.setRoutingRules({ strategy: 'fastest' });
+      const order = await service.createOrder({ provider: 'auto', from: sender, to: recipient, items });
+
+      assert.equal(order.provider, 'sf-express');
+      assert.equal(order.metadata?.routing.rule, 'fastest');
+      assert.deepEqual(order.metadata?.routing.candidates, ['sf-express', 'yto', 'zto']);
+      assert.equal((await service.getOrder(order.id))?.provider, 'sf-express');
+    } finally {
+      service.stop();
+    }
+  });
+
+  it('rejects routing rules that name unknown couriers', async () => {
+    const service = await createService();
+    try {
+      assert.throws(
+        () => service.setRoutingRules({ strategy: 'cheapest', excludedProviders: ['ems'] }),
+        /excludedProviders\[0\] references unknown provider ems/
+      );
+    } finally {
+      service.stop();
+    }
+  });
+});
+
+describe('persistence', () => {
+  it('keeps orders and webhook subscriptions across restarts with file repositories', async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'oneship-service-'));
+    const options = (): OneShipServiceOptions => ({
+      orders: new JsonFileRepository(path.join(dataDir, 'orders.json')),
+      webhooks: new JsonFileRepository(path.join(dataDir, 'webhooks.json')),
+    });
+    try {
+      const before = await createService(options());
+      const order = await before.createOrder({ provider: 'zto', from: sender, to: recipient, items });
+      const webhook = await before.subscribeWebhook('https://erp.example.com/hooks', [WebhookEventType.ORDER_CREATED]);
+      before.stop();
+
+      const after = await createService(options());
+      try {
+        const reloaded = await after.getOrder(order.id);
+        assert.equal(reloaded?.orderNumber, order.orderNumber);
+        assert.equal(reloaded?.createdAt instanceof Date, true);
+        assert.deepEqual((await after.listWebhooks()).map((subscription) => subscription.id), [webhook.id]);
+      } finally {
+        after.stop();
+      }
+    } finally {
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('pickups', () => {
+  const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+  const timeWindow = { start: hoursFromNow(1), end: hoursFromNow(4) };
+
+  it('books pickups for orders of one courier and completes them once the courier has the parcel', async () => {
+    const receiver = await startReceiver();
+    const service = await createService();
+    try {
+      const events = [WebhookEventType.PICKUP_SCHEDULED, WebhookEventType.PICKUP_COMPLETED];
+      await service.subscribeWebhook(receiver.url, events);
+      const order = await service.createOrder({ provider: 'zto', from: sender, to: recipient, items });
+      const request = { provider: 'zto', timeWindow, address: sender, parcelCount: 1, orderIds: [order.id] };
+
+      await assert.rejects(
+        service.schedulePickup({ ...request, provider: 'sf-express' }),
+        new RegExp(`Order ${order.id} belongs to provider zto`)
+      );
+
+      const pickup = await service.schedulePickup(request);
+      assert.equal(pickup.status, PickupStatus.SCHEDULED);
+      assert.deepEqual(pickup.orderIds, [order.id]);
+      assert.match(pickup.pickupNumber!, /^ZTOP/);
+
+      // The mock courier reports the order out for delivery, so it has been collected
+      await service.queryOrder(order.id);
+      assert.equal((await service.getPickup(pickup.id))?.status, PickupStatus.COMPLETED);
+      await assert.rejects(service.cancelPickup(pickup.id), /is already completed/);
+
+      await eventually(() => assert.deepEqual(receiver.received.map((call) => call.event), events));
+    } finally {
+      service.stop();
+      await receiver.close();
+    }
+  });
+
+  it('rejects pickups in the past and cancels scheduled ones', async () => {
+    const service = await createService();
+    try {
+      const order = await service.createOrder({ provider: 'yto', from: sender, to: recipient, items });
+      const request = { provider: 'yto', timeWindow, address: sender, parcelCount: 2, orderIds: [order.id] };
+
+      await assert.rejects(
+        service.schedulePickup({ ...request, timeWindow: { start: hoursFromNow(-4), end: hoursFromNow(-1) } }),
+        /time window is in the past/
+      );
+
+      const pickup = await service.schedulePickup(request);
+      await service.cancelPickup(pickup.id);
+      assert.equal((await service.getPickup(pickup.id))?.status, PickupStatus.CANCELLED);
+      await assert.rejects(service.cancelPickup(pickup.id), /is already cancelled/);
+    } finally {
+      service.stop();
+    }
+  });
+});
+
+describe('createOrderBatch', () => {
+  /**
+   * ZTO provider that takes a while to create orders and counts how many it creates at once
+   */
+  class SlowZTOProvider extends ZTOProvider {
+    running = 0;
+    maxRunning = 0;
+
+    protected async doCreateOrder(request: CreateOrderRequest): Promise<CreateOrderResponse> {
+      this.running++;
+      this.maxRunning = Math.max(this.maxRunning, this.running);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      this.running--;
+      return await super.doCreateOrder(request);
+    }
+  }
+
+  it('reports success or failure per order in request order', async () => {
+    const service = await createService();
+    try {
+      const results = await service.createOrderBatch([
+        { provider: 'zto', from: sender, to: recipient, items },
+        { provider: 'ems', from: sender, to: recipient, items },
+        { provider: 'yto', from: sender, to: { ...recipient, phone: '' }, items },
+        { provider: 'auto', from: sender, to: recipient, items },
+      ]);
+
+      assert.deepEqual(
+        results.map(({ index, success, order, error }) => [index, success, order?.provider ?? error]),
+        [
+          [0, true, 'zto'],
+          [1, false, 'Provider ems not found'],
+          [2, false, 'Invalid create order request: phone number is required'],
+          [3, true, 'zto'],
+        ]
+      );
+      assert.equal((await service.getOrder(results[0].order!.id))?.provider, 'zto');
+    } finally {
+      service.stop();
+    }
+  });
+
+  it('limits how many orders are created with one courier at once', async () => {
+    const zto = new SlowZTOProvider();
+    const service = new OneShipService();
+    try {
+      service.registerProvider(zto);
+      await service.configureProvider('zto', { id: 'zto', apiKey: 'key' });
+
+      const requests = Array.from({ length: 6 }, () => ({ provider: 'zto', from: sender, to: recipient, items }));
+      const results = await service.createOrderBatch(requests, 2);
+
+      assert.equal(results.every((result) => result.success), true);
+      assert.equal(zto.maxRunning, 2);
+    } finally {
+      service.stop();
+    }
+  });
+
+  it('rejects empty batches', async () => {
+    const service = await createService();
+    try {
+      await assert.rejects(service.createOrderBatch([]), /Batch must contain at least one order/);
+    } finally {
+      service.stop();
+    }
+  });
+});
+
+describe('webhook signing', () => {
+  it('signs every delivery with the subscription secret, a timestamp and a delivery ID', async () => {
+    const receiver = await startReceiver();
+    const service = await createService();
+    try {
+      const signed = await service.subscribeWebhook(receiver.url, [WebhookEventType.ORDER_CREATED], 'whsec_test');
+      await service.subscribeWebhook(receiver.url, [WebhookEventType.ORDER_CREATED]);
+      await service.createOrder({ provider: 'zto', from: sender, to: recipient, items });
+
+      await eventually(() => assert.equal(receiver.received.length, 2));
+      const [delivery] = await service.listWebhookDeliveries(signed.id);
+      const header = (name: string) => name.toLowerCase();
+      const signedCall = receiver.received.find((call) => call.headers[header(WEBHOOK_HEADERS.SIGNATURE)])!;
+      const unsignedCall = receiver.received.find((call) => call !== signedCall)!;
+
+      const timestamp = Number(signedCall.headers[header(WEBHOOK_HEADERS.TIMESTAMP)]);
+      assert.equal(Math.abs(Date.now() / 1000 - timestamp) < 5, true);
+      assert.equal(
+        signedCall.headers[header(WEBHOOK_HEADERS.SIGNATURE)],
+        computeWebhookSignature('whsec_test', timestamp, signedCall.body)
+      );
+      assert.equal(signedCall.headers[header(WEBHOOK_HEADERS.DELIVERY_ID)], delivery.id);
+      assert.notEqual(unsignedCall.headers[header(WEBHOOK_HEADERS.DELIVERY_ID)], delivery.id);
+      assert.equal(unsignedCall.headers[header(WEBHOOK_HEADERS.SIGNATURE)], undefined);
+    } finally {
+      service.stop();
+      await receiver.close();
+    }
+  });
+});
+
+describe('webhook management', () => {
+  it('pauses, resumes, re-targets and rotates the secret of a subscription', async () => {
+    const receiver = await startReceiver();
+    const service = await createService();
+    try {
+      const webhook = await service.subscribeWebhook(receiver.url, [WebhookEventType.ORDER_CREATED], 'whsec_old');
+
+      await service.updateWebhook(webhook.id, { active: false });
+      await service.createOrder({ provider: 'zto', from: sender, to: recipient, items });
+      assert.deepEqual(await service.listWebhookDeliveries(webhook.id), [], 'paused subscriptions get no deliveries');
+
+      await assert.rejects(
+        service.updateWebhook(webhook.id, { active: true, url: 'ftp://erp.example.com' }),
+        /Webhook URL must use http or https/
+      );
+      assert.equal((await service.getWebhook(webhook.id))?.active, false, 'a rejected update changes nothing');
+      await assert.rejects(
+        service.updateWebhook(webhook.id, { events: ['order.teleported' as WebhookEventType] }),
+        /Unsupported webhook events: order.teleported/
+      );
+
+      const updated = await service.updateWebhook(webhook.id, {
+        active: true,
+        events: [WebhookEventType.ORDER_CREATED, WebhookEventType.ORDER_DELIVERED],
+        secret: 'whsec_new',
+      });
+      assert.equal(updated.active, true);
+      assert.equal(updated.secret, 'whsec_new');
+      assert.equal(updated.updatedAt instanceof Date, true);
+
+      await service.createOrder({ provider: 'zto', from: sender, to: recipient, items });
+      await eventually(() => assert.equal(receiver.received.length, 1));
+      const [call] = receiver.received;
+      const timestamp = Number(call.headers[WEBHOOK_HEADERS.TIMESTAMP.toLowerCase()]);
+      assert.equal(
+        call.headers[WEBHOOK_HEADERS.SIGNATURE.toLowerCase()],
+        computeWebhookSignature('whsec_new', timestamp, call.body)
+      );
+
+      assert.equal((await service.updateWebhook(webhook.id, { secret: null })).secret, undefined);
+      await assert.rejects(service.updateWebhook('missing', { active: true }), /Webhook missing not found/);
+    } finally {
+      service.stop();
+      await receiver.close();
+    }
+  });
+
+  it('resets the failure count when a deactivated subscription is turned back on', async () => {
+    const webhooks = new InMemoryRepository<WebhookSubscription>();
+    const service = await createService({ webhooks });
+    try {
+      const webhook = await service.subscribeWebhook('https://erp.example.com/hooks', [WebhookEventType.ORDER_CREATED]);
+      // As left behind by the dispatcher after repeated dead letters
+      await webhooks.save({ ...webhook, active: false, consecutiveFailures: 5, deactivatedAt: new Date() });
+
+      const resumed = await service.updateWebhook(webhook.id, { active: true });
+      assert.equal(resumed.consecutiveFailures, 0);
+      assert.equal(resumed.deactivatedAt, undefined);
+    } finally {
+      service.stop();
+    }
+  });
+
+  it('sends a signed test event and reports how the receiver answered', async () => {
+    const accepting = await startReceiver(200, 'pong');
+    const failing = await startReceiver(503, 'maintenance');
+    const service = await createService();
+    try {
+      const webhook = await service.subscribeWebhook(accepting.url, [WebhookEventType.ORDER_CREATED], 'whsec_test');
+      const result = await service.testWebhook(webhook.id);
+
+      assert.equal(result.success, true);
+      assert.equal(result.statusCode, 200);
+      assert.equal(result.responseBody, 'pong');
+      const [call] = accepting.received;
+      assert.equal(call.event, WebhookEventType.WEBHOOK_TEST);
+      assert.equal(call.headers[WEBHOOK_HEADERS.DELIVERY_ID.toLowerCase()], result.deliveryId);
+      const timestamp = Number(call.headers[WEBHOOK_HEADERS.TIMESTAMP.toLowerCase()]);
+      assert.equal(
+        call.headers[WEBHOOK_HEADERS.SIGNATURE.toLowerCase()],
+        computeWebhookSignature('whsec_test', timestamp, call.body)
+      );
+      assert.deepEqual(await service.listWebhookDeliveries(webhook.id), [], 'test events are not queued');
+
+      await service.updateWebhook(webhook.id, { url: failing.url });
+      const failed = await service.testWebhook(webhook.id);
+      assert.equal(failed.success, false);
+      assert.equal(failed.statusCode, 503);
+      assert.equal(failed.responseBody, 'maintenance');
+      assert.equal(failed.error, 'HTTP 503: Service Unavailable');
+    } finally {
+      service.stop();
+      await accepting.close();
+      await failing.close();
+    }
+  });
+});
+
+describe('handleCarrierCallback', () => {
+  it('verifies the push, records new scans once and moves the order along', async () => {
+    const receiver = await startReceiver();
+    const service = await createService();
+    try {
+      await service.configureProvider('sf-express', { id: 'sf-express', apiKey: 'key', apiSecret: 'checkword' });
+      await service.subscribeWebhook(receiver.url, [WebhookEventType.ORDER_STATUS_CHANGED]);
+      const order = await service.createOrder({ provider: 'sf-express', from: sender, to: recipient, items });
+      const push = sfPush([
+        { mailno: order.orderNumber!, opCode: '50', acceptTime: '2024-03-01 10:00:00', remark: '已揽收' },
+        { mailno: order.orderNumber!, opCode: '44', acceptTime: '2024-03-01 14:00:00', remark: '派送中' },
+        { mailno: order.orderNumber!, opCode: '9999', acceptTime: '2024-03-01 14:05:00', remark: '客服来电' },
+        { mailno: 'SF-UNKNOWN', opCode: '80', acceptTime: '2024-03-01 15:00:00' },
+      ]);
+
+      assert.deepEqual(await service.handleCarrierCallback('sf-express', push), {
+        return_code: '0000',
+        return_msg: '成功',
+      });
+      await service.handleCarrierCallback('sf-express', push);
+
+      const updated = (await service.getOrder(order.id))!;
+      assert.equal(updated.status, OrderStatus.OUT_FOR_DELIVERY);
+      assert.deepEqual(
+        updated.trackingEvents?.map((event) => [event.rawCode, event.timestamp.toISOString()]),
+        [
+          ['50', '2024-03-01T02:00:00.000Z'],
+          ['44', '2024-03-01T06:00:00.000Z'],
+        ]
+      );
+      assert.deepEqual(
+        updated.statusHistory?.map((transition) => [transition.from, transition.to, transition.source]),
+        [[OrderStatus.CREATED, OrderStatus.OUT_FOR_DELIVERY, OrderStatusSource.COURIER_PUSH]]
+      );
+      await eventually(() => assert.equal(receiver.received.length, 1));
+    } finally {
+      service.stop();
+      await receiver.close();
+    }
+  });
+
+  it('rejects pushes with a wrong signature and couriers without push support', async () => {
+    const service = await createService();
+    try {
+      await service.configureProvider('sf-express', { id: 'sf-express', apiKey: 'key', apiSecret: 'checkword' });
+      const order = await service.createOrder({ provider: 'sf-express', from: sender, to: recipient, items });
+      const forged = sfPush([{ mailno: order.orderNumber!, opCode: '80', acceptTime: '2024-03-01 10:00:00' }], 'guess');
+
+      await assert.rejects(service.handleCarrierCallback('sf-express', forged), /Invalid push notification signature/);
+      assert.equal((await service.getOrder(order.id))?.status, OrderStatus.CREATED);
+      await assert.rejects(service.handleCarrierCallback('ems', forged), /Provider ems is not initialized/);
+    } finally {
+      service.stop();
+    }
+  });
+});
+
+describe('order status transitions', () => {
+  it('rejects cancelling delivered orders and ignores scans that would move them back', async () => {
+    const receiver = await startReceiver();
+    const service = await createService();
+    try {
+      await service.configureProvider('sf-express', { id: 'sf-express', apiKey: 'key', apiSecret: 'checkword' });
+      await service.subscribeWebhook(receiver.url, [
+        WebhookEventType.ORDER_STATUS_CHANGED,
+        WebhookEventType.ORDER_UPDATED,
+      ]);
+      const order = await service.createOrder({ provider: 'sf-express', from: sender, to: recipient, items });
+      await service.handleCarrierCallback(
+        'sf-express',
+        sfPush([{ mailno: order.orderNumber!, opCode: '80', acceptTime: '2024-03-01 10:00:00' }])
+      );
+
+      await assert.rejects(
+        service.cancelOrder(order.id),
+        new RegExp(`Order ${order.id} cannot be cancelled in status delivered`)
+      );
+      await service.handleCarrierCallback(
+        'sf-express',
+        sfPush([{ mailno: order.orderNumber!, opCode: '30', acceptTime: '2024-03-01 12:00:00' }])
+      );
+
+      const updated = (await service.getOrder(order.id))!;
+      assert.equal(updated.status, OrderStatus.DELIVERED);
+      assert.deepEqual(updated.trackingEvents?.map((event) => event.rawCode), ['80', '30']);
+      assert.deepEqual(updated.statusHistory?.map((transition) => transition.to), [OrderStatus.DELIVERED]);
+      await eventually(() =>
+        assert.deepEqual(
+          receiver.received.map((delivery) => delivery.event),
+          [WebhookEventType.ORDER_STATUS_CHANGED, WebhookEventType.ORDER_UPDATED]
+        )
+      );
+    } finally {
+      service.stop();
+      await receiver.close();
+    }
+  });
+});
+
+describe('order lifecycle events', () => {
+  it('emits an event for exceptions, returns, lost and damaged parcels', async () => {
+    const receiver = await startReceiver();
+    const service = await createService();
+    const scan = (mailno: string, opCode: string, acceptTime: string) =>
+      service.handleCarrierCallback('sf-express', sfPush([{ mailno, opCode, acceptTime }]));
+    // SF waybill numbers come from the clock, orders booked in the same millisecond would share one
+    const book = async () => {
+      await new Promise((resolve) => setTimeout(resolve, 2));
+      return await service.createOrder({ provider: 'sf-express', from: sender, to: recipient, items });
+    };
+    try {
+      await service.configureProvider('sf-express', { id: 'sf-express', apiKey: 'key', apiSecret: 'checkword' });
+      await service.subscribeWebhook(receiver.url, [
+        WebhookEventType.ORDER_EXCEPTION,
+        WebhookEventType.ORDER_RETURNING,
+        WebhookEventType.ORDER_RETURNED,
+        WebhookEventType.ORDER_LOST,
+        WebhookEventType.ORDER_DAMAGED,
+      ]);
+      const returned = await book();
+      await scan(returned.orderNumber!, '70', '2024-03-01 10:00:00');
+      await scan(returned.orderNumber!, '99', '2024-03-01 11:00:00');
+      await scan(returned.orderNumber!, '8099', '2024-03-02 09:00:00');
+      const lost = await book();
+      await scan(lost.orderNumber!, '50', '2024-03-01 10:00:00');
+      await scan(lost.orderNumber!, '611', '2024-03-03 10:00:00');
+      const damaged = await book();
+      await scan(damaged.orderNumber!, '50', '2024-03-01 10:00:00');
+      await scan(damaged.orderNumber!, '612', '2024-03-02 10:00:00');
+
+      assert.equal((await service.getOrder(returned.id))?.status, OrderStatus.RETURNED);
+      assert.equal((await service.getOrder(lost.id))?.status, OrderStatus.LOST);
+      assert.equal((await service.getOrder(damaged.id))?.status, OrderStatus.DAMAGED);
+      await eventually(() =>
+        assert.deepEqual(receiver.received.map((delivery) => delivery.event).sort(), [
+          WebhookEventType.ORDER_DAMAGED,
+          WebhookEventType.ORDER_EXCEPTION,
+          WebhookEventType.ORDER_LOST,
+          WebhookEventType.ORDER_RETURNED,
+          WebhookEventType.ORDER_RETURNING,
+        ])
+      );
+    } finally {
+      service.stop();
+      await receiver.close();
+    }
+  });
+});
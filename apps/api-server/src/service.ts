@@ -1,39 +1,149 @@
 import {
   CreateOrderRequest,
   QueryOrderRequest,
+  RateQuoteRequest,
   ShippingOrder,
+  TrackingEvent,
+  OrderStatus,
+  OrderStatusSource,
+  OrderStatusTransition,
+  canTransitionOrder,
+  transitionOrder,
   IProvider,
   ProviderId,
   ProviderConfig,
+  RoutingRules,
+  AUTO_PROVIDER_ID,
+  LabelFormat,
+  ShippingLabel,
+  SchedulePickupRequest,
+  CarrierCallbackRequest,
+  Pickup,
+  PickupStatus,
   FreeShippingNotification,
   WebhookEventType,
   WebhookPayload,
   OneShipEventEmitter,
+  OrderRepository,
+  FreeShippingNotificationRepository,
+  PickupRepository,
+  WorkflowExecution,
+  WorkflowExecutionFilter,
+  WorkflowStepStatus,
+  WorkflowExecutionRepository,
+  WorkflowDefinition,
+  WorkflowDefinitionRepository,
+  WorkflowGraphFormat,
+  WorkflowReference,
 } from '@oneship/core';
-import { ProviderRegistry } from '@oneship/providers';
+import { ProviderRegistry, CourierRouter } from '@oneship/providers';
 import {
   WorkflowEngine,
-  WorkflowDefinition,
+  WorkflowRegistry,
+  WorkflowTriggerDispatcher,
+  exportWorkflowGraph,
   DEFAULT_CREATE_ORDER_WORKFLOW,
   DEFAULT_FREE_SHIPPING_WORKFLOW,
 } from '@oneship/workflow';
-import { WebhookSubscription } from '@oneship/api';
+import { InMemoryRepository } from '@oneship/storage';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionRepository,
+  WebhookSubscriptionUpdateRequest,
+  WebhookTestResult,
+  WebhookDelivery,
+  WebhookDeliveryRepository,
+  WebhookDeliveryStatus,
+  RateQuoteApiResponse,
+  CreateOrderApiRequest,
+  BatchOrderResult,
+  OrderWorkflowRules,
+} from '@oneship/api';
+import { ConcurrencyLimiter } from './concurrency-limiter';
+import { WebhookDispatcher, WebhookDispatcherOptions } from './webhook-dispatcher';
+import { TrackingPoller, TrackingPollerOptions } from './tracking-poller';
+
+/**
+ * Maximum number of orders accepted in one batch
+ */
+export const MAX_BATCH_SIZE = 5000;
+
+/**
+ * Default number of orders created in parallel per provider in a batch
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 5;
+
+/**
+ * Repositories used by OneShipService, in-memory when omitted
+ */
+export interface OneShipServiceOptions {
+  orders?: OrderRepository;
+  webhooks?: WebhookSubscriptionRepository;
+  freeShippingNotifications?: FreeShippingNotificationRepository;
+  pickups?: PickupRepository;
+  workflowExecutions?: WorkflowExecutionRepository;
+  workflowDefinitions?: WorkflowDefinitionRepository;
+  webhookDeliveries?: WebhookDeliveryRepository;
+  webhookDelivery?: WebhookDispatcherOptions;
+  trackingPoller?: TrackingPollerOptions;
+}
+
+/**
+ * How to pick the workflow an order is created with
+ */
+export interface OrderWorkflowSelection {
+  workflow?: WorkflowReference; // Requested explicitly, wins over tenant and default rules
+  tenantId?: string;
+}
 
 /**
  * Main OneShip service
  */
 export class OneShipService {
   private providerRegistry: ProviderRegistry;
+  private courierRouter: CourierRouter;
   private workflowEngine: WorkflowEngine;
+  private workflowRegistry: WorkflowRegistry;
+  private workflowTriggers: WorkflowTriggerDispatcher;
+  private orderWorkflowRules: OrderWorkflowRules = {};
   private eventEmitter: OneShipEventEmitter;
-  private webhooks: Map<string, WebhookSubscription> = new Map();
-  private orders: Map<string, ShippingOrder> = new Map();
-  private freeShippingNotifications: Map<string, FreeShippingNotification> = new Map();
+  private webhooks: WebhookSubscriptionRepository;
+  private webhookDispatcher: WebhookDispatcher;
+  private trackingPoller: TrackingPoller;
+  private orders: OrderRepository;
+  private freeShippingNotifications: FreeShippingNotificationRepository;
+  private pickups: PickupRepository;
 
-  constructor() {
+  constructor(options: OneShipServiceOptions = {}) {
+    this.webhooks = options.webhooks || new InMemoryRepository();
+    this.orders = options.orders || new InMemoryRepository();
+    this.freeShippingNotifications = options.freeShippingNotifications || new InMemoryRepository();
+    this.pickups = options.pickups || new InMemoryRepository();
+    this.webhookDispatcher = new WebhookDispatcher(
+      options.webhookDeliveries || new InMemoryRepository(),
+      this.webhooks,
+      options.webhookDelivery
+    );
+    this.trackingPoller = new TrackingPoller(
+      this.orders,
+      (orderId) => this.queryOrder(orderId),
+      options.trackingPoller
+    );
     this.providerRegistry = new ProviderRegistry();
+    this.courierRouter = new CourierRouter();
     this.eventEmitter = new OneShipEventEmitter();
-    this.workflowEngine = new WorkflowEngine(this.sendWebhook.bind(this));
+    this.workflowRegistry = new WorkflowRegistry(options.workflowDefinitions || new InMemoryRepository());
+    this.workflowRegistry.registerBuiltIn(DEFAULT_CREATE_ORDER_WORKFLOW);
+    this.workflowRegistry.registerBuiltIn(DEFAULT_FREE_SHIPPING_WORKFLOW);
+    this.workflowEngine = new WorkflowEngine(
+      this.sendWebhook.bind(this),
+      options.workflowExecutions || new InMemoryRepository(),
+      (workflowId, version) => this.workflowRegistry.getPinned(workflowId, version),
+      () => this.getInitializedProviders()
+    );
+    this.workflowEngine.registerWorkflow(DEFAULT_CREATE_ORDER_WORKFLOW);
+    this.workflowEngine.registerWorkflow(DEFAULT_FREE_SHIPPING_WORKFLOW);
+    this.workflowTriggers = new WorkflowTriggerDispatcher(this.workflowEngine, this.workflowRegistry);
 
     // Register event listeners
     this.setupEventListeners();
@@ -43,6 +153,9 @@ export class OneShipService {
    * Setup event listeners
    */
   private setupEventListeners(): void {
+    // Start workflows triggered by order and free shipping events
+    this.workflowTriggers.subscribe(this.eventEmitter);
+
     this.eventEmitter.on('order.created', (payload: WebhookPayload) => {
       this.handleWebhookEvent(payload);
     });
@@ -51,10 +164,34 @@ export class OneShipService {
       this.handleWebhookEvent(payload);
     });
 
+    this.eventEmitter.on('order.status_changed', (payload: WebhookPayload) => {
+      this.handleWebhookEvent(payload);
+    });
+
     this.eventEmitter.on('order.delivered', (payload: WebhookPayload) => {
       this.handleWebhookEvent(payload);
     });
 
+    this.eventEmitter.on('order.exception', (payload: WebhookPayload) => {
+      this.handleWebhookEvent(payload);
+    });
+
+    this.eventEmitter.on('order.returning', (payload: WebhookPayload) => {
+      this.handleWebhookEvent(payload);
+    });
+
+    this.eventEmitter.on('order.returned', (payload: WebhookPayload) => {
+      this.handleWebhookEvent(payload);
+    });
+
+    this.eventEmitter.on('order.lost', (payload: WebhookPayload) => {
+      this.handleWebhookEvent(payload);
+    });
+
+    this.eventEmitter.on('order.damaged', (payload: WebhookPayload) => {
+      this.handleWebhookEvent(payload);
+    });
+
     this.eventEmitter.on('free_shipping.detected', (payload: WebhookPayload) => {
       this.handleWebhookEvent(payload);
     });
@@ -62,6 +199,14 @@ export class OneShipService {
     this.eventEmitter.on('free_shipping.expired', (payload: WebhookPayload) => {
       this.handleWebhookEvent(payload);
     });
+
+    this.eventEmitter.on('pickup.scheduled', (payload: WebhookPayload) => {
+      this.handleWebhookEvent(payload);
+    });
+
+    this.eventEmitter.on('pickup.completed', (payload: WebhookPayload) => {
+      this.handleWebhookEvent(payload);
+    });
   }
 
   /**
@@ -79,47 +224,117 @@ export class OneShipService {
   }
 
   /**
-   * Create shipping order
+   * Get initialized providers keyed by provider ID
    */
-  async createOrder(request: CreateOrderRequest, webhookUrl?: string): Promise<ShippingOrder> {
-    // Execute workflow
-    const workflow: WorkflowDefinition = {
-      ...DEFAULT_CREATE_ORDER_WORKFLOW,
-      steps: DEFAULT_CREATE_ORDER_WORKFLOW.steps.map((step) => {
-        if (step.type === 'webhook' && webhookUrl) {
-          return {
-            ...step,
-            config: { ...step.config, url: webhookUrl },
-          };
-        }
-        return step;
-      }),
-    };
-
+  private getInitializedProviders(): Map<string, IProvider> {
     const providers = new Map<string, IProvider>();
-    this.providerRegistry.getAll().forEach((p) => {
-      if (this.providerRegistry.isInitialized(p.id)) {
-        providers.set(p.id, p);
-      }
-    });
+    this.providerRegistry.getAllInitialized().forEach((p) => providers.set(p.id, p));
+    return providers;
+  }
 
-    const execution = await this.workflowEngine.execute(
-      workflow,
-      {
-        provider: request.provider,
-        input: request,
-      },
-      providers
+  /**
+   * Resume workflow executions interrupted by a restart
+   *
+   * Steps look providers up as they run, so this can run before providers are configured.
+   */
+  async recoverWorkflows(): Promise<number> {
+    const executions = await this.workflowEngine.recover();
+    return executions.length;
+  }
+
+  /**
+   * List workflow executions, most recently started first
+   */
+  async listWorkflowExecutions(filter: WorkflowExecutionFilter = {}): Promise<WorkflowExecution[]> {
+    return await this.workflowEngine.listExecutions(filter);
+  }
+
+  /**
+   * Get a workflow execution with its step history
+   */
+  async getWorkflowExecution(executionId: string): Promise<WorkflowExecution | undefined> {
+    return await this.workflowEngine.getExecution(executionId);
+  }
+
+  /**
+   * Cancel a running workflow execution
+   */
+  async cancelWorkflowExecution(executionId: string): Promise<WorkflowExecution> {
+    return await this.workflowEngine.cancel(executionId);
+  }
+
+  /**
+   * Re-run a failed workflow execution from the step that failed
+   */
+  async rerunWorkflowExecution(executionId: string): Promise<WorkflowExecution> {
+    return await this.workflowEngine.rerun(executionId);
+  }
+
+  /**
+   * Get courier routing rules
+   */
+  getRoutingRules(): RoutingRules {
+    return this.courierRouter.getRules();
+  }
+
+  /**
+   * Update courier routing rules
+   */
+  setRoutingRules(rules: RoutingRules): void {
+    this.courierRouter.setRules(
+      rules,
+      this.providerRegistry.getAll().map((provider) => provider.id)
     );
+  }
 
-    // Get order from execution output
-    const createOrderStep = execution.steps.find((s) => s.name === 'Create Order');
-    if (!createOrderStep || createOrderStep.status !== 'success') {
-      throw new Error('Failed to create order');
+  /**
+   * Get the rules selecting which workflow creates orders
+   */
+  getOrderWorkflowRules(): OrderWorkflowRules {
+    return this.orderWorkflowRules;
+  }
+
+  /**
+   * Replace the rules selecting which workflow creates orders, every referenced workflow must exist
+   */
+  async setOrderWorkflowRules(rules: OrderWorkflowRules): Promise<void> {
+    for (const reference of this.orderWorkflowReferences(rules)) {
+      await this.resolveWorkflow(reference);
     }
 
-    const order = createOrderStep.output?.order as ShippingOrder;
-    this.orders.set(order.id, order);
+    this.orderWorkflowRules = rules;
+  }
+
+  /**
+   * Create shipping order
+   */
+  async createOrder(
+    request: CreateOrderRequest,
+    webhookUrl?: string,
+    selection: OrderWorkflowSelection = {}
+  ): Promise<ShippingOrder> {
+    const workflow = await this.selectOrderWorkflow(selection);
+
+    if (!request.provider || request.provider === AUTO_PROVIDER_ID) {
+      request = await this.routeOrder(request);
+    }
+
+    // Execute workflow, webhook steps fall back to the webhook URL in the input
+    const execution = await this.workflowEngine.executeAndWait(workflow, {
+      provider: request.provider,
+      input: { ...request, webhookUrl },
+    });
+
+    // A failed execution whose compensation succeeded has cancelled the order again
+    const compensated =
+      execution.status === WorkflowStepStatus.FAILED &&
+      execution.steps.some((step) => step.compensation && step.status === WorkflowStepStatus.SUCCESS);
+    const order = execution.context?.order as ShippingOrder | undefined;
+    if (!order || compensated) {
+      throw new Error(execution.error || `Workflow ${workflow.id} did not create an order`);
+    }
+
+    await this.orders.save(order);
 
     // Emit event
     this.eventEmitter.emitOrderCreated(order);
@@ -127,11 +342,169 @@ export class OneShipService {
     return order;
   }
 
+  /**
+   * Create many orders, reporting success or failure per order instead of failing the batch
+   */
+  async createOrderBatch(
+    requests: CreateOrderApiRequest[],
+    concurrency: number = DEFAULT_BATCH_CONCURRENCY,
+    tenantId?: string
+  ): Promise<BatchOrderResult[]> {
+    if (!Array.isArray(requests) || requests.length === 0) {
+      throw new Error('Batch must contain at least one order');
+    }
+    if (requests.length > MAX_BATCH_SIZE) {
+      throw new Error(`Batch cannot contain more than ${MAX_BATCH_SIZE} orders`);
+    }
+
+    // Automatic courier selection quotes every provider, so it shares one limiter
+    const routingLimiter = new ConcurrencyLimiter(concurrency);
+    const providerLimiters = new Map<ProviderId, ConcurrencyLimiter>();
+    const limiterFor = (providerId: ProviderId): ConcurrencyLimiter => {
+      let limiter = providerLimiters.get(providerId);
+      if (!limiter) {
+        limiter = new ConcurrencyLimiter(concurrency);
+        providerLimiters.set(providerId, limiter);
+      }
+      return limiter;
+    };
+
+    return await Promise.all(
+      requests.map(async (item, index): Promise<BatchOrderResult> => {
+        try {
+          const { webhookUrl, workflow, ...orderRequest } = item;
+          const request =
+            !orderRequest.provider || orderRequest.provider === AUTO_PROVIDER_ID
+              ? await routingLimiter.run(() => this.routeOrder(orderRequest))
+              : orderRequest;
+
+          const order = await limiterFor(request.provider!).run(() =>
+            this.createOrder(request, webhookUrl, { workflow, tenantId })
+          );
+          return { index, success: true, order };
+        } catch (error) {
+          return { index, success: false, error: (error as Error).message };
+        }
+      })
+    );
+  }
+
+  /**
+   * Pick the order workflow for a request, then the tenant's, then the default rule, then the built-in
+   */
+  private async selectOrderWorkflow(selection: OrderWorkflowSelection): Promise<WorkflowDefinition> {
+    const reference =
+      selection.workflow ||
+      (selection.tenantId ? this.orderWorkflowRules.tenants?.[selection.tenantId] : undefined) ||
+      this.orderWorkflowRules.defaultWorkflow;
+
+    return reference ? await this.resolveWorkflow(reference) : DEFAULT_CREATE_ORDER_WORKFLOW;
+  }
+
+  /**
+   * Every workflow referenced by order workflow rules
+   */
+  private orderWorkflowReferences(rules: OrderWorkflowRules): WorkflowReference[] {
+    return [
+      ...(rules.defaultWorkflow ? [rules.defaultWorkflow] : []),
+      ...Object.values(rules.tenants || {}),
+    ];
+  }
+
+  /**
+   * Load a referenced workflow version, throwing if it does not exist
+   */
+  private async resolveWorkflow(reference: WorkflowReference): Promise<WorkflowDefinition> {
+    const workflow = await this.workflowRegistry.get(reference.workflowId, reference.version);
+    if (!workflow) {
+      throw new Error(
+        reference.version === undefined
+          ? `Workflow ${reference.workflowId} not found`
+          : `Workflow ${reference.workflowId} version ${reference.version} not found`
+      );
+    }
+    return workflow;
+  }
+
+  /**
+   * List the latest version of every workflow
+   */
+  async listWorkflows(): Promise<WorkflowDefinition[]> {
+    return await this.workflowRegistry.list();
+  }
+
+  /**
+   * Get a workflow, the latest version when no version is given
+   */
+  async getWorkflow(workflowId: string, version?: number): Promise<WorkflowDefinition | undefined> {
+    return await this.workflowRegistry.get(workflowId, version);
+  }
+
+  /**
+   * List every version of a workflow, oldest first
+   */
+  async listWorkflowVersions(workflowId: string): Promise<WorkflowDefinition[] | undefined> {
+    return await this.workflowRegistry.listVersions(workflowId);
+  }
+
+  /**
+   * Render a workflow as a Mermaid or DOT graph, the latest version when no version is given
+   */
+  async getWorkflowGraph(
+    workflowId: string,
+    format: WorkflowGraphFormat,
+    version?: number
+  ): Promise<string | undefined> {
+    const workflow = await this.workflowRegistry.get(workflowId, version);
+    return workflow && exportWorkflowGraph(workflow, format);
+  }
+
+  /**
+   * Validate and store a new workflow
+   */
+  async createWorkflow(workflow: WorkflowDefinition): Promise<WorkflowDefinition> {
+    this.workflowEngine.validateWorkflow(workflow);
+    return await this.workflowRegistry.create(workflow);
+  }
+
+  /**
+   * Validate a workflow and publish it as the workflow's next version
+   */
+  async updateWorkflow(workflowId: string, workflow: WorkflowDefinition): Promise<WorkflowDefinition> {
+    this.workflowEngine.validateWorkflow(workflow);
+    return await this.workflowRegistry.update(workflowId, workflow);
+  }
+
+  /**
+   * Delete a workflow, refusing while order workflow rules still select it
+   */
+  async deleteWorkflow(workflowId: string): Promise<void> {
+    const references = this.orderWorkflowReferences(this.orderWorkflowRules);
+    if (references.some((reference) => reference.workflowId === workflowId)) {
+      throw new Error(`Workflow ${workflowId} is selected by the order workflow rules`);
+    }
+
+    await this.workflowRegistry.delete(workflowId);
+  }
+
+  /**
+   * Select a courier by routing rules and record the decision in order metadata
+   */
+  private async routeOrder(request: CreateOrderRequest): Promise<CreateOrderRequest> {
+    const decision = await this.courierRouter.select(request, this.providerRegistry.getAllInitialized());
+
+    return {
+      ...request,
+      provider: decision.provider,
+      metadata: { ...request.metadata, routing: decision },
+    };
+  }
+
   /**
    * Query order status
    */
   async queryOrder(orderId: string): Promise<ShippingOrder> {
-    const order = this.orders.get(orderId);
+    const order = await this.orders.findById(orderId);
     if (!order) {
       throw new Error(`Order ${orderId} not found`);
     }
@@ -146,25 +519,23 @@ export class OneShipService {
       provider: order.provider,
     };
 
+    // The provider's order only carries courier-side fields, keep the stored order as the source of truth
     const response = await provider.queryOrder(request);
-    const updatedOrder = response.order;
-    this.orders.set(orderId, updatedOrder);
-
-    // Emit event
-    this.eventEmitter.emitOrderUpdated(updatedOrder);
-
-    if (updatedOrder.status === 'delivered') {
-      this.eventEmitter.emitOrderDelivered(updatedOrder);
-    }
+    await this.applyTracking(
+      order,
+      response.trackingEvents || [],
+      response.order.status,
+      OrderStatusSource.POLL
+    );
 
-    return updatedOrder;
+    return order;
   }
 
   /**
    * Cancel order
    */
   async cancelOrder(orderId: string): Promise<void> {
-    const order = this.orders.get(orderId);
+    const order = await this.orders.findById(orderId);
     if (!order) {
       throw new Error(`Order ${orderId} not found`);
     }
@@ -174,18 +545,280 @@ export class OneShipService {
       throw new Error(`Provider ${order.provider} is not initialized`);
     }
 
+    if (!canTransitionOrder(order.status, OrderStatus.CANCELLED)) {
+      throw new Error(`Order ${orderId} cannot be cancelled in status ${order.status}`);
+    }
+
     await provider.cancelOrder(order.orderNumber || orderId);
-    order.status = 'cancelled';
-    this.orders.set(orderId, order);
+    const transition = transitionOrder(order, OrderStatus.CANCELLED, OrderStatusSource.API);
+    await this.orders.save(order);
 
-    this.eventEmitter.emitOrderUpdated(order);
+    this.eventEmitter.emitOrderStatusChanged(order, transition);
+  }
+
+  /**
+   * Apply a courier push notification and return the acknowledgement the courier expects
+   */
+  async handleCarrierCallback(providerId: ProviderId, request: CarrierCallbackRequest): Promise<any> {
+    const provider = this.providerRegistry.getInitialized(providerId);
+    if (!provider) {
+      throw new Error(`Provider ${providerId} is not initialized`);
+    }
+    if (!provider.handleCallback) {
+      throw new Error(`Provider ${providerId} does not support push notifications`);
+    }
+
+    const { updates, acknowledgement } = await provider.handleCallback(request);
+
+    for (const update of updates) {
+      const [order] = await this.orders.findAll(
+        (o) => o.provider === providerId && o.orderNumber === update.orderNumber
+      );
+      if (!order) {
+        console.warn(`Ignoring push notification for unknown ${providerId} waybill ${update.orderNumber}`);
+        continue;
+      }
+      await this.applyTracking(order, update.events, undefined, OrderStatusSource.COURIER_PUSH);
+    }
+
+    return acknowledgement;
+  }
+
+  /**
+   * Merge courier tracking events into an order and move it along the status state machine
+   *
+   * Couriers report scans out of order and resend them, so status changes the state
+   * machine rejects are logged and skipped rather than failing the update.
+   */
+  private async applyTracking(
+    order: ShippingOrder,
+    events: TrackingEvent[],
+    reportedStatus: OrderStatus | undefined,
+    source: OrderStatusSource
+  ): Promise<void> {
+    const eventKey = (event: TrackingEvent) =>
+      `${new Date(event.timestamp).getTime()}|${event.rawCode || event.status}|${event.description}`;
+    const known = new Set((order.trackingEvents || []).map(eventKey));
+    const added = events.filter((event) => !known.has(eventKey(event)));
+
+    if (added.length > 0) {
+      order.trackingEvents = [...(order.trackingEvents || []), ...added].sort(
+        (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      );
+    }
+
+    const latest = order.trackingEvents?.[order.trackingEvents.length - 1];
+    const status = added.length > 0 ? latest!.status : reportedStatus || order.status;
+
+    let transition: OrderStatusTransition | undefined;
+    if (status !== order.status) {
+      if (canTransitionOrder(order.status, status)) {
+        transition = transitionOrder(order, status, source);
+      } else {
+        console.warn(`Ignoring ${source} status ${status} for order ${order.id} in status ${order.status}`);
+      }
+    }
+
+    if (!transition && added.length === 0) {
+      return;
+    }
+
+    if (latest && latest.status === order.status) {
+      order.subStatus = latest.subStatus;
+    }
+    order.updatedAt = new Date();
+    await this.orders.save(order);
+
+    if (!transition) {
+      this.eventEmitter.emitOrderUpdated(order);
+      return;
+    }
+
+    await this.completePickups(order.id, order.status);
+    this.eventEmitter.emitOrderStatusChanged(order, transition);
+    this.emitLifecycleEvent(order);
+  }
+
+  /**
+   * Emit the dedicated event for statuses support and customers are notified about
+   */
+  private emitLifecycleEvent(order: ShippingOrder): void {
+    switch (order.status) {
+      case OrderStatus.DELIVERED:
+        this.eventEmitter.emitOrderDelivered(order);
+        break;
+      case OrderStatus.EXCEPTION:
+        this.eventEmitter.emitOrderException(order);
+        break;
+      case OrderStatus.RETURNING:
+        this.eventEmitter.emitOrderReturning(order);
+        break;
+      case OrderStatus.RETURNED:
+        this.eventEmitter.emitOrderReturned(order);
+        break;
+      case OrderStatus.LOST:
+        this.eventEmitter.emitOrderLost(order);
+        break;
+      case OrderStatus.DAMAGED:
+        this.eventEmitter.emitOrderDamaged(order);
+        break;
+    }
+  }
+
+  /**
+   * Quote rates across all initialized providers
+   */
+  async quoteRates(request: RateQuoteRequest, providerIds?: ProviderId[]): Promise<RateQuoteApiResponse> {
+    const providers = this.providerRegistry
+      .getAllInitialized()
+      .filter((p) => !providerIds || providerIds.length === 0 || providerIds.includes(p.id));
+
+    const results = await Promise.allSettled(providers.map((p) => p.quoteRate(request)));
+
+    const response: RateQuoteApiResponse = { quotes: [], failures: [] };
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        response.quotes.push(result.value);
+      } else {
+        response.failures.push({
+          provider: providers[index].id,
+          error: (result.reason as Error).message,
+        });
+      }
+    });
+    response.quotes.sort((a, b) => a.price - b.price || a.estimatedDays - b.estimatedDays);
+
+    return response;
+  }
+
+  /**
+   * Get the electronic waybill label for an order
+   */
+  async getLabel(orderId: string, format: LabelFormat): Promise<ShippingLabel> {
+    const order = await this.orders.findById(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+
+    const provider = this.providerRegistry.getInitialized(order.provider);
+    if (!provider) {
+      throw new Error(`Provider ${order.provider} is not initialized`);
+    }
+
+    return await provider.getLabel({ order, format });
+  }
+
+  /**
+   * Book a courier pickup for orders of a single provider
+   */
+  async schedulePickup(request: SchedulePickupRequest): Promise<Pickup> {
+    const provider = this.providerRegistry.getInitialized(request.provider);
+    if (!provider) {
+      throw new Error(`Provider ${request.provider} is not initialized`);
+    }
+
+    const orders: ShippingOrder[] = [];
+    for (const orderId of request.orderIds || []) {
+      const order = await this.orders.findById(orderId);
+      if (!order) {
+        throw new Error(`Order ${orderId} not found`);
+      }
+      if (order.provider !== request.provider) {
+        throw new Error(`Order ${orderId} belongs to provider ${order.provider}`);
+      }
+      orders.push(order);
+    }
+
+    // A missing time window is left for the provider to reject with its other required fields
+    const { pickup } = await provider.schedulePickup({
+      ...request,
+      timeWindow: request.timeWindow && {
+        start: new Date(request.timeWindow.start),
+        end: new Date(request.timeWindow.end),
+      },
+      orderIds: orders.map((order) => order.orderNumber || order.id),
+    });
+
+    // Link the pickup to OneShip order IDs rather than courier order numbers
+    pickup.orderIds = request.orderIds;
+    await this.pickups.save(pickup);
+
+    this.eventEmitter.emitPickupScheduled(pickup);
+
+    return pickup;
+  }
+
+  /**
+   * Get pickup by ID
+   */
+  async getPickup(pickupId: string): Promise<Pickup | undefined> {
+    return await this.pickups.findById(pickupId);
+  }
+
+  /**
+   * List pickups
+   */
+  async listPickups(): Promise<Pickup[]> {
+    return await this.pickups.findAll();
+  }
+
+  /**
+   * Cancel a scheduled pickup
+   */
+  async cancelPickup(pickupId: string): Promise<void> {
+    const pickup = await this.pickups.findById(pickupId);
+    if (!pickup) {
+      throw new Error(`Pickup ${pickupId} not found`);
+    }
+    if (pickup.status !== PickupStatus.SCHEDULED) {
+      throw new Error(`Pickup ${pickupId} is already ${pickup.status}`);
+    }
+
+    const provider = this.providerRegistry.getInitialized(pickup.provider);
+    if (!provider) {
+      throw new Error(`Provider ${pickup.provider} is not initialized`);
+    }
+
+    await provider.cancelPickup(pickup.pickupNumber || pickupId);
+    pickup.status = PickupStatus.CANCELLED;
+    pickup.updatedAt = new Date();
+    await this.pickups.save(pickup);
+  }
+
+  /**
+   * Complete scheduled pickups once the courier has collected one of their orders
+   */
+  private async completePickups(orderId: string, status: OrderStatus): Promise<void> {
+    const collected = [
+      OrderStatus.PICKED_UP,
+      OrderStatus.IN_TRANSIT,
+      OrderStatus.OUT_FOR_DELIVERY,
+      OrderStatus.DELIVERED,
+      OrderStatus.RETURNING,
+      OrderStatus.RETURNED,
+      OrderStatus.LOST,
+      OrderStatus.DAMAGED,
+    ];
+    if (!collected.includes(status)) {
+      return;
+    }
+
+    const pickups = await this.pickups.findAll(
+      (pickup) => pickup.status === PickupStatus.SCHEDULED && pickup.orderIds.includes(orderId)
+    );
+    for (const pickup of pickups) {
+      pickup.status = PickupStatus.COMPLETED;
+      pickup.updatedAt = new Date();
+      await this.pickups.save(pickup);
+      this.eventEmitter.emitPickupCompleted(pickup);
+    }
   }
 
   /**
    * Check for free shipping
    */
   async checkFreeShipping(orderId: string): Promise<FreeShippingNotification | null> {
-    const order = this.orders.get(orderId);
+    const order = await this.orders.findById(orderId);
     if (!order) {
       throw new Error(`Order ${orderId} not found`);
     }
@@ -197,7 +830,7 @@ export class OneShipService {
 
     const notification = await provider.checkFreeShipping(orderId);
     if (notification) {
-      this.freeShippingNotifications.set(notification.id, notification);
+      await this.freeShippingNotifications.save(notification);
       this.eventEmitter.emitFreeShippingDetected(notification);
     }
 
@@ -221,62 +854,175 @@ export class OneShipService {
       active: true,
     };
 
-    this.webhooks.set(subscription.id, subscription);
+    await this.webhooks.save(subscription);
     return subscription;
   }
 
   /**
    * Get webhook subscription
    */
-  getWebhook(webhookId: string): WebhookSubscription | undefined {
-    return this.webhooks.get(webhookId);
+  async getWebhook(webhookId: string): Promise<WebhookSubscription | undefined> {
+    return await this.webhooks.findById(webhookId);
   }
 
   /**
    * List webhook subscriptions
    */
-  listWebhooks(): WebhookSubscription[] {
-    return Array.from(this.webhooks.values());
+  async listWebhooks(): Promise<WebhookSubscription[]> {
+    return await this.webhooks.findAll();
+  }
+
+  /**
+   * Update a webhook subscription, rotating or removing its secret and pausing or resuming it
+   */
+  async updateWebhook(
+    webhookId: string,
+    update: WebhookSubscriptionUpdateRequest
+  ): Promise<WebhookSubscription> {
+    const webhook = await this.webhooks.findById(webhookId);
+    if (!webhook) {
+      throw new Error(`Webhook ${webhookId} not found`);
+    }
+
+    // Validate every field before applying any so a rejected update leaves the subscription untouched
+    if (update.url !== undefined) {
+      this.validateWebhookUrl(update.url);
+    }
+    if (update.events !== undefined) {
+      this.validateWebhookEvents(update.events);
+    }
+    if (update.secret !== undefined && update.secret !== null) {
+      if (typeof update.secret !== 'string' || !update.secret) {
+        throw new Error('Secret must be a non-empty string or null');
+      }
+    }
+    if (update.active !== undefined && typeof update.active !== 'boolean') {
+      throw new Error('Active must be a boolean');
+    }
+
+    if (update.url !== undefined) {
+      webhook.url = update.url;
+    }
+    if (update.events !== undefined) {
+      webhook.events = update.events;
+    }
+    if (update.secret !== undefined) {
+      webhook.secret = update.secret || undefined;
+    }
+    if (update.active !== undefined) {
+      if (update.active && !webhook.active) {
+        webhook.consecutiveFailures = 0;
+        webhook.deactivatedAt = undefined;
+      }
+      webhook.active = update.active;
+    }
+
+    webhook.updatedAt = new Date();
+    await this.webhooks.save(webhook);
+    return webhook;
+  }
+
+  /**
+   * Send a synthetic signed event to a webhook subscription and report the receiver's response
+   */
+  async testWebhook(webhookId: string): Promise<WebhookTestResult> {
+    const webhook = await this.webhooks.findById(webhookId);
+    if (!webhook) {
+      throw new Error(`Webhook ${webhookId} not found`);
+    }
+
+    return await this.webhookDispatcher.test(webhook, {
+      event: WebhookEventType.WEBHOOK_TEST,
+      timestamp: new Date(),
+      data: {
+        webhookId,
+        message: 'Test event from OneShip',
+      },
+    });
+  }
+
+  /**
+   * Validate a webhook URL
+   */
+  private validateWebhookUrl(url: string): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error(`Invalid webhook URL: ${url}`);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new Error('Webhook URL must use http or https');
+    }
+  }
+
+  /**
+   * Validate subscribed webhook events
+   */
+  private validateWebhookEvents(events: WebhookEventType[]): void {
+    if (!Array.isArray(events) || events.length === 0) {
+      throw new Error('At least one event is required');
+    }
+    const supported = Object.values(WebhookEventType) as string[];
+    const unsupported = events.filter((event) => !supported.includes(event));
+    if (unsupported.length > 0) {
+      throw new Error(`Unsupported webhook events: ${unsupported.join(', ')}`);
+    }
   }
 
   /**
    * Delete webhook subscription
    */
-  deleteWebhook(webhookId: string): void {
-    this.webhooks.delete(webhookId);
+  async deleteWebhook(webhookId: string): Promise<void> {
+    await this.webhooks.delete(webhookId);
+  }
+
+  /**
+   * List deliveries for a webhook subscription
+   */
+  async listWebhookDeliveries(
+    webhookId: string,
+    status?: WebhookDeliveryStatus
+  ): Promise<WebhookDelivery[]> {
+    return await this.webhookDispatcher.listDeliveries(webhookId, status);
+  }
+
+  /**
+   * Manually redeliver a failed webhook delivery
+   */
+  async redeliverWebhook(webhookId: string, deliveryId: string): Promise<WebhookDelivery> {
+    return await this.webhookDispatcher.redeliver(webhookId, deliveryId);
+  }
+
+  /**
+   * Resume webhook deliveries still waiting for a retry, typically on startup
+   */
+  async resumeWebhookDeliveries(): Promise<number> {
+    return await this.webhookDispatcher.resume();
   }
 
   /**
    * Get order by ID
    */
-  getOrder(orderId: string): ShippingOrder | undefined {
-    return this.orders.get(orderId);
+  async getOrder(orderId: string): Promise<ShippingOrder | undefined> {
+    return await this.orders.findById(orderId);
   }
 
   /**
    * List free shipping notifications
    */
-  listFreeShippingNotifications(): FreeShippingNotification[] {
-    return Array.from(this.freeShippingNotifications.values());
+  async listFreeShippingNotifications(): Promise<FreeShippingNotification[]> {
+    return await this.freeShippingNotifications.findAll();
   }
 
   /**
-   * Send webhook
+   * Send webhook from a workflow step
+   *
+   * Failures fail the step unless it has an `onFailure` step, and are then retried by its retry policy.
    */
   private async sendWebhook(url: string, payload: any): Promise<void> {
-    // In production, use a proper HTTP client like axios or fetch
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Webhook failed: ${response.statusText}`);
-      }
+      await this.webhookDispatcher.post(url, payload);
     } catch (error) {
       console.error(`Failed to send webhook to ${url}:`, error);
       throw error;
@@ -287,14 +1033,44 @@ export class OneShipService {
    * Handle webhook event
    */
   private handleWebhookEvent(payload: WebhookPayload): void {
-    // Send to all subscribed webhooks
-    this.webhooks.forEach((webhook) => {
-      if (webhook.active && webhook.events.includes(payload.event)) {
-        this.sendWebhook(webhook.url, payload).catch((error) => {
-          console.error(`Failed to send webhook ${webhook.id}:`, error);
+    // Queue a delivery for every subscribed webhook, failures are retried by the dispatcher
+    this.webhooks
+      .findAll((webhook) => webhook.active && webhook.events.includes(payload.event))
+      .then((webhooks) => {
+        webhooks.forEach((webhook) => {
+          this.webhookDispatcher.enqueue(webhook, payload).catch((error) => {
+            console.error(`Failed to queue webhook ${webhook.id}:`, error);
+          });
         });
-      }
-    });
+      })
+      .catch((error) => {
+        console.error(`Failed to load webhooks for ${payload.event}:`, error);
+      });
+  }
+
+  /**
+   * Start polling couriers for orders that are still on their way
+   */
+  startTrackingPoller(): void {
+    this.trackingPoller.start();
+  }
+
+  /**
+   * Stop polling couriers
+   */
+  stopTrackingPoller(): void {
+    this.trackingPoller.stop();
+  }
+
+  /**
+   * Stop background work: tracking polls, webhook retries and workflow wake-ups
+   *
+   * Pending deliveries and RUNNING executions are kept and resume on the next start.
+   */
+  stop(): void {
+    this.stopTrackingPoller();
+    this.webhookDispatcher.stop();
+    this.workflowEngine.stop();
   }
 
   /**
@@ -308,8 +1084,12 @@ export class OneShipService {
         provider.startFreeShippingListener
       ) {
         await provider.startFreeShippingListener((notification) => {
-          this.freeShippingNotifications.set(notification.id, notification);
-          this.eventEmitter.emitFreeShippingDetected(notification);
+          this.freeShippingNotifications
+            .save(notification)
+            .then(() => this.eventEmitter.emitFreeShippingDetected(notification))
+            .catch((error) => {
+              console.error(`Failed to save free shipping notification ${notification.id}:`, error);
+            });
         });
       }
     }
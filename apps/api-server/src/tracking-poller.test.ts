@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { OrderStatus, ShippingOrder, WebhookEventType } from '@oneship/core';
+import { ZTOProvider } from '@oneship/providers';
+import { InMemoryRepository } from '@oneship/storage';
+import { OneShipService } from './service';
+import { TrackingPoller } from './tracking-poller';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function order(id: string, status: OrderStatus, updatedAt: Date, provider: string = 'zto'): ShippingOrder {
+  return {
+    id,
+    provider,
+    orderNumber: `ZTO${updatedAt.getTime()}`,
+    status,
+    from: { name: 'Sender', phone: '13800000000', address: 'Shanghai' },
+    to: { name: 'Recipient', phone: '13900000000', address: 'Guangzhou' },
+    items: [],
+    createdAt: updatedAt,
+    updatedAt,
+  };
+}
+
+describe('TrackingPoller', () => {
+  it('polls due orders, most overdue first, within the provider budget', async () => {
+    const orders = new InMemoryRepository<ShippingOrder>();
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+    await orders.save(order('recent', OrderStatus.IN_TRANSIT, hoursAgo(0.5)));
+    await orders.save(order('overdue', OrderStatus.IN_TRANSIT, hoursAgo(5)));
+    await orders.save(order('due', OrderStatus.IN_TRANSIT, hoursAgo(2)));
+    await orders.save(order('delivered', OrderStatus.DELIVERED, hoursAgo(48)));
+
+    const polled: string[] = [];
+    const poller = new TrackingPoller(
+      orders,
+      async (orderId) => {
+        polled.push(orderId);
+        return (await orders.findById(orderId))!;
+      },
+      { defaultProviderBudget: 1 }
+    );
+
+    await poller.tick();
+    assert.deepEqual(polled, ['overdue']);
+    await poller.tick();
+    assert.deepEqual(polled, ['overdue'], 'the budget window is used up');
+  });
+
+  it('does not record or announce the same courier scans again on later polls', async () => {
+    const received: string[] = [];
+    const receiver = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        received.push(JSON.parse(body).event);
+        response.writeHead(204).end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+
+    const orders = new InMemoryRepository<ShippingOrder>();
+    const service = new OneShipService({
+      orders,
+      trackingPoller: {
+        tickIntervalMs: 5,
+        intervals: { [OrderStatus.CREATED]: 0, [OrderStatus.OUT_FOR_DELIVERY]: 0 },
+      },
+    });
+    try {
+      service.registerProvider(new ZTOProvider());
+      await service.configureProvider('zto', { id: 'zto', apiKey: 'key' });
+      const webhook = await service.subscribeWebhook(url, [
+        WebhookEventType.ORDER_UPDATED,
+        WebhookEventType.ORDER_STATUS_CHANGED,
+      ]);
+      await orders.save(order('order-1', OrderStatus.CREATED, new Date(Date.now() - 2 * 60 * 60 * 1000)));
+
+      service.startTrackingPoller();
+      await sleep(60);
+      service.stopTrackingPoller();
+      await sleep(30);
+
+      const polled = (await service.getOrder('order-1'))!;
+      assert.equal(polled.status, OrderStatus.OUT_FOR_DELIVERY);
+      assert.equal(polled.trackingEvents?.length, 1);
+      assert.deepEqual(polled.statusHistory?.map((transition) => transition.to), [OrderStatus.OUT_FOR_DELIVERY]);
+
+      const deliveries = await service.listWebhookDeliveries(webhook.id);
+      assert.deepEqual(deliveries.map((delivery) => delivery.event), [WebhookEventType.ORDER_STATUS_CHANGED]);
+      assert.deepEqual(received, [WebhookEventType.ORDER_STATUS_CHANGED]);
+    } finally {
+      service.stop();
+      await new Promise((resolve) => receiver.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,162 @@
+import { OrderStatus, OrderRepository, ProviderId, ShippingOrder } from '@oneship/core';
+
+/**
+ * Tracking poller options
+ */
+export interface TrackingPollerOptions {
+  tickIntervalMs?: number; // How often to look for orders that are due
+  intervals?: Partial<Record<OrderStatus, number>>; // Overrides DEFAULT_POLL_INTERVALS per status
+  providerBudgets?: Record<ProviderId, number>; // Queries allowed per provider in each budget window
+  defaultProviderBudget?: number;
+  budgetWindowMs?: number;
+}
+
+/**
+ * How long to wait between polls of an order in each status, statuses missing here are never polled
+ */
+export const DEFAULT_POLL_INTERVALS: Partial<Record<OrderStatus, number>> = {
+  [OrderStatus.CREATED]: 2 * 60 * 60 * 1000,
+  [OrderStatus.PICKED_UP]: 60 * 60 * 1000,
+  [OrderStatus.IN_TRANSIT]: 60 * 60 * 1000,
+  [OrderStatus.OUT_FOR_DELIVERY]: 10 * 60 * 1000,
+  [OrderStatus.EXCEPTION]: 30 * 60 * 1000,
+  [OrderStatus.RETURNING]: 2 * 60 * 60 * 1000,
+  [OrderStatus.LOST]: 6 * 60 * 60 * 1000,
+  [OrderStatus.DAMAGED]: 6 * 60 * 60 * 1000,
+};
+
+const DEFAULT_OPTIONS = {
+  tickIntervalMs: 60 * 1000,
+  defaultProviderBudget: 60,
+  budgetWindowMs: 60 * 1000,
+};
+
+/**
+ * Periodically queries couriers for orders that are still on their way
+ *
+ * Orders are polled more often the closer they are to delivery. Each provider has
+ * a request budget per window; orders over budget stay due and are picked up on a
+ * later tick, most overdue first.
+ */
+export class TrackingPoller {
+  private intervals: Partial<Record<OrderStatus, number>>;
+  private tickIntervalMs: number;
+  private providerBudgets: Record<ProviderId, number>;
+  private defaultProviderBudget: number;
+  private budgetWindowMs: number;
+  private budgets: Map<ProviderId, { windowStart: number; used: number }> = new Map();
+  private lastPolledAt: Map<string, number> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(
+    private orders: OrderRepository,
+    private queryOrder: (orderId: string) => Promise<ShippingOrder>,
+    options: TrackingPollerOptions = {}
+  ) {
+    this.intervals = { ...DEFAULT_POLL_INTERVALS, ...options.intervals };
+    this.tickIntervalMs = options.tickIntervalMs || DEFAULT_OPTIONS.tickIntervalMs;
+    this.providerBudgets = options.providerBudgets || {};
+    this.defaultProviderBudget = options.defaultProviderBudget || DEFAULT_OPTIONS.defaultProviderBudget;
+    this.budgetWindowMs = options.budgetWindowMs || DEFAULT_OPTIONS.budgetWindowMs;
+  }
+
+  /**
+   * Start polling
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error('Tracking poll failed:', error);
+      });
+    }, this.tickIntervalMs);
+  }
+
+  /**
+   * Stop polling, queries already in flight finish on their own
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Query every order that is due, within provider budgets
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const now = Date.now();
+      const due = (await this.orders.findAll((order) => this.overdueBy(order, now) >= 0)).sort(
+        (a, b) => this.overdueBy(b, now) - this.overdueBy(a, now)
+      );
+
+      const selected = due.filter((order) => this.consumeBudget(order.provider, now));
+      await Promise.all(selected.map((order) => this.poll(order.id)));
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Query one order, failures wait for the next interval like successful polls
+   */
+  private async poll(orderId: string): Promise<void> {
+    this.lastPolledAt.set(orderId, Date.now());
+
+    try {
+      const order = await this.queryOrder(orderId);
+      // Delivered, returned and cancelled orders are never polled again
+      if (this.intervals[order.status] === undefined) {
+        this.lastPolledAt.delete(orderId);
+      }
+    } catch (error) {
+      console.error(`Failed to poll tracking for order ${orderId}:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * Milliseconds an order is past its next poll, negative when not due and -Infinity when its status is not polled
+   */
+  private overdueBy(order: ShippingOrder, now: number): number {
+    const interval = this.intervals[order.status];
+    if (interval === undefined) {
+      return -Infinity;
+    }
+
+    // Pushes and manual queries update the order, so they count as a fresh poll
+    const lastSeen = Math.max(
+      this.lastPolledAt.get(order.id) || 0,
+      new Date(order.updatedAt).getTime()
+    );
+    return now - lastSeen - interval;
+  }
+
+  /**
+   * Take one request from a provider's budget for the current window
+   */
+  private consumeBudget(providerId: ProviderId, now: number): boolean {
+    let budget = this.budgets.get(providerId);
+    if (!budget || now - budget.windowStart >= this.budgetWindowMs) {
+      budget = { windowStart: now, used: 0 };
+      this.budgets.set(providerId, budget);
+    }
+
+    const limit = this.providerBudgets[providerId] ?? this.defaultProviderBudget;
+    if (budget.used >= limit) {
+      return false;
+    }
+
+    budget.used++;
+    return true;
+  }
+}
@@ -0,0 +1,174 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { WebhookEventType, WebhookPayload } from '@oneship/core';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookSubscription } from '@oneship/api';
+import { InMemoryRepository } from '@oneship/storage';
+import { WebhookDispatcher, WebhookDispatcherOptions } from './webhook-dispatcher';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const payload: WebhookPayload = {
+  event: WebhookEventType.ORDER_DELIVERED,
+  timestamp: new Date(),
+  data: { id: 'order-1' },
+  orderId: 'order-1',
+  provider: 'zto',
+};
+
+/**
+ * Receiver answering with the queued statuses in turn, then with 204
+ */
+async function startReceiver(statuses: number[] = []) {
+  let calls = 0;
+  const server = createServer((request, response) => {
+    request.resume();
+    request.on('end', () => {
+      calls++;
+      response.writeHead(statuses.shift() ?? 204).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`,
+    calls: () => calls,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+function setup(url: string, options: WebhookDispatcherOptions = {}) {
+  const deliveries = new InMemoryRepository<WebhookDelivery>();
+  const webhooks = new InMemoryRepository<WebhookSubscription>();
+  const webhook: WebhookSubscription = {
+    id: 'webhook-1',
+    url,
+    events: [WebhookEventType.ORDER_DELIVERED],
+    createdAt: new Date(),
+    active: true,
+  };
+  const dispatcher = new WebhookDispatcher(deliveries, webhooks, {
+    maxAttempts: 3,
+    initialBackoffMs: 20,
+    maxBackoffMs: 30,
+    deactivateAfterFailures: 2,
+    ...options,
+  });
+  return { deliveries, webhooks, webhook, dispatcher };
+}
+
+/**
+ * Wait until a delivery leaves the PENDING state
+ */
+async function settled(dispatcher: WebhookDispatcher, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  for (let i = 0; i < 200; i++) {
+    const [current] = (await dispatcher.listDeliveries(delivery.webhookId)).filter((d) => d.id === delivery.id);
+    if (current.status !== WebhookDeliveryStatus.PENDING) {
+      return current;
+    }
+    await sleep(5);
+  }
+  throw new Error(`Delivery ${delivery.id} is still pending`);
+}
+
+describe('WebhookDispatcher', () => {
+  it('retries failed deliveries with exponential backoff up to the maximum', async () => {
+    const receiver = await startReceiver([500, 503]);
+    const { webhooks, webhook, dispatcher } = setup(receiver.url);
+    try {
+      await webhooks.save({ ...webhook, consecutiveFailures: 1 });
+      const delivery = await settled(dispatcher, await dispatcher.enqueue(webhook, payload));
+
+      assert.equal(delivery.status, WebhookDeliveryStatus.SUCCEEDED);
+      assert.deepEqual(delivery.attempts.map((attempt) => attempt.statusCode), [500, 503, 204]);
+      assert.equal(delivery.attempts[0].error, 'HTTP 500: Internal Server Error');
+      const [first, second, third] = delivery.attempts.map((attempt) => attempt.attemptedAt.getTime());
+      assert.equal(second - first >= 18, true, 'first retry waits the initial backoff');
+      assert.equal(third - second >= 28, true, 'second retry waits the doubled backoff, capped at the maximum');
+      assert.equal((await webhooks.findById(webhook.id))?.consecutiveFailures, 0);
+    } finally {
+      dispatcher.stop();
+      await receiver.close();
+    }
+  });
+
+  it('dead-letters exhausted deliveries and deactivates subscriptions that keep failing', async () => {
+    const receiver = await startReceiver([500, 500, 500, 500]);
+    const { webhooks, webhook, dispatcher } = setup(receiver.url, { maxAttempts: 2, initialBackoffMs: 5 });
+    try {
+      await webhooks.save(webhook);
+
+      const first = await settled(dispatcher, await dispatcher.enqueue(webhook, payload));
+      assert.equal(first.status, WebhookDeliveryStatus.DEAD_LETTERED);
+      assert.equal(first.attempts.length, 2);
+      assert.equal(first.nextAttemptAt, undefined);
+      assert.equal((await webhooks.findById(webhook.id))?.active, true);
+
+      await settled(dispatcher, await dispatcher.enqueue(webhook, payload));
+      const deactivated = (await webhooks.findById(webhook.id))!;
+      assert.equal(deactivated.active, false);
+      assert.equal(deactivated.consecutiveFailures, 2);
+      assert.equal(deactivated.deactivatedAt instanceof Date, true);
+
+      const skipped = await settled(dispatcher, await dispatcher.enqueue(webhook, payload));
+      assert.equal(skipped.status, WebhookDeliveryStatus.DEAD_LETTERED);
+      assert.equal(skipped.attempts[0].error, 'Subscription is inactive');
+      assert.equal(receiver.calls(), 4);
+      assert.equal((await dispatcher.listDeliveries(webhook.id, WebhookDeliveryStatus.DEAD_LETTERED)).length, 3);
+    } finally {
+      dispatcher.stop();
+      await receiver.close();
+    }
+  });
+
+  it('redelivers dead letters manually once the receiver recovers', async () => {
+    const receiver = await startReceiver([500]);
+    const { webhooks, webhook, dispatcher } = setup(receiver.url, { maxAttempts: 1 });
+    try {
+      await webhooks.save(webhook);
+      const failed = await settled(dispatcher, await dispatcher.enqueue(webhook, payload));
+      assert.equal(failed.status, WebhookDeliveryStatus.DEAD_LETTERED);
+
+      const redelivered = await dispatcher.redeliver(webhook.id, failed.id);
+      assert.equal(redelivered.status, WebhookDeliveryStatus.SUCCEEDED);
+      assert.deepEqual(
+        redelivered.attempts.map((attempt) => [attempt.statusCode, attempt.manual ?? false]),
+        [
+          [500, false],
+          [204, true],
+        ]
+      );
+      await assert.rejects(dispatcher.redeliver('webhook-2', failed.id), /Delivery .* not found/);
+    } finally {
+      dispatcher.stop();
+      await receiver.close();
+    }
+  });
+
+  it('resumes deliveries left pending by a stopped dispatcher', async () => {
+    const receiver = await startReceiver([500]);
+    const { deliveries, webhooks, webhook, dispatcher } = setup(receiver.url, { initialBackoffMs: 10 * 1000 });
+    try {
+      await webhooks.save(webhook);
+      const delivery = await dispatcher.enqueue(webhook, payload);
+      await sleep(30);
+      dispatcher.stop();
+      assert.equal((await deliveries.findById(delivery.id))?.status, WebhookDeliveryStatus.PENDING);
+      await assert.rejects(dispatcher.redeliver(webhook.id, delivery.id), /is still being retried/);
+
+      // A restarted dispatcher picks up the persisted retry time, here moved to now
+      const restarted = new WebhookDispatcher(deliveries, webhooks);
+      await deliveries.save({ ...(await deliveries.findById(delivery.id))!, nextAttemptAt: new Date() });
+      assert.equal(await restarted.resume(), 1);
+      const resumed = await settled(restarted, delivery);
+      restarted.stop();
+
+      assert.equal(resumed.status, WebhookDeliveryStatus.SUCCEEDED);
+      assert.equal(resumed.attempts.length, 2);
+    } finally {
+      dispatcher.stop();
+      await receiver.close();
+    }
+  });
+});
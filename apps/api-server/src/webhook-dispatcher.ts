@@ -0,0 +1,364 @@
+import { randomUUID } from 'crypto';
+import {
+  WebhookPayload,
+  WEBHOOK_HEADERS,
+  computeWebhookSignature,
+} from '@oneship/core';
+import {
+  WebhookSubscription,
+  WebhookSubscriptionRepository,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryRepository,
+  WebhookDeliveryStatus,
+  WebhookTestResult,
+} from '@oneship/api';
+
+/**
+ * Webhook delivery options
+ */
+export interface WebhookDispatcherOptions {
+  maxAttempts?: number; // Automatic attempts before a delivery is dead-lettered
+  initialBackoffMs?: number; // Delay before the first retry, doubled on every retry
+  maxBackoffMs?: number;
+  deactivateAfterFailures?: number; // Consecutive dead-lettered deliveries before a subscription is deactivated
+  timeoutMs?: number; // Per-attempt request timeout
+}
+
+const DEFAULT_OPTIONS: Required<WebhookDispatcherOptions> = {
+  maxAttempts: 6,
+  initialBackoffMs: 30 * 1000,
+  maxBackoffMs: 60 * 60 * 1000,
+  deactivateAfterFailures: 5,
+  timeoutMs: 10 * 1000,
+};
+
+/**
+ * Maximum number of response body characters reported by a test delivery
+ */
+const MAX_TEST_RESPONSE_LENGTH = 1024;
+
+/**
+ * Queues webhook deliveries and retries failures with exponential backoff
+ *
+ * Deliveries are persisted before the first attempt, so pending retries survive a
+ * restart once `resume()` is called. Deliveries that exhaust their attempts are
+ * kept as dead letters and can be redelivered manually.
+ */
+export class WebhookDispatcher {
+  private options: Required<WebhookDispatcherOptions>;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private inFlight: Set<string> = new Set();
+
+  constructor(
+    private deliveries: WebhookDeliveryRepository,
+    private webhooks: WebhookSubscriptionRepository,
+    options: WebhookDispatcherOptions = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Queue a payload for delivery to a subscription
+   */
+  async enqueue(webhook: WebhookSubscription, payload: WebhookPayload): Promise<WebhookDelivery> {
+    const now = new Date();
+    const delivery: WebhookDelivery = {
+      id: randomUUID(),
+      webhookId: webhook.id,
+      url: webhook.url,
+      event: payload.event,
+      payload,
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: [],
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.deliveries.save(delivery);
+    this.schedule(delivery);
+
+    return delivery;
+  }
+
+  /**
+   * Reschedule pending deliveries, typically on startup
+   */
+  async resume(): Promise<number> {
+    const pending = await this.deliveries.findAll(
+      (delivery) => delivery.status === WebhookDeliveryStatus.PENDING && !this.timers.has(delivery.id)
+    );
+    pending.forEach((delivery) => this.schedule(delivery));
+    return pending.length;
+  }
+
+  /**
+   * Stop pending retry timers, deliveries stay pending until the next resume()
+   */
+  stop(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * List deliveries for a subscription, newest first
+   */
+  async listDeliveries(webhookId: string, status?: WebhookDeliveryStatus): Promise<WebhookDelivery[]> {
+    const deliveries = await this.deliveries.findAll(
+      (delivery) => delivery.webhookId === webhookId && (!status || delivery.status === status)
+    );
+    return deliveries.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Manually redeliver a delivery once, returning it with the new attempt recorded
+   */
+  async redeliver(webhookId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await this.deliveries.findById(deliveryId);
+    if (!delivery || delivery.webhookId !== webhookId) {
+      throw new Error(`Delivery ${deliveryId} not found`);
+    }
+    if (delivery.status === WebhookDeliveryStatus.PENDING) {
+      throw new Error(`Delivery ${deliveryId} is still being retried`);
+    }
+
+    const webhook = await this.webhooks.findById(webhookId);
+    if (!webhook) {
+      throw new Error(`Webhook ${webhookId} not found`);
+    }
+
+    const attempt = await this.attempt(delivery, webhook, true);
+    delivery.attempts.push(attempt);
+    delivery.updatedAt = new Date();
+    if (!attempt.error) {
+      delivery.status = WebhookDeliveryStatus.SUCCEEDED;
+    }
+    await this.deliveries.save(delivery);
+
+    if (!attempt.error) {
+      await this.recordSuccess(webhook.id);
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Post a payload once, throwing if the receiver does not accept it
+   */
+  async post(url: string, payload: any, secret?: string, deliveryId: string = randomUUID()): Promise<number> {
+    const response = await this.send(url, payload, secret, deliveryId);
+    if (!response.ok) {
+      throw new Error(`Webhook failed: ${response.status} ${response.statusText}`);
+    }
+    return response.status;
+  }
+
+  /**
+   * Send a payload once without queueing it and report how the receiver responded
+   */
+  async test(webhook: WebhookSubscription, payload: WebhookPayload): Promise<WebhookTestResult> {
+    const deliveryId = randomUUID();
+    const startedAt = Date.now();
+
+    try {
+      const response = await this.send(webhook.url, payload, webhook.secret, deliveryId);
+      const responseBody = await response.text().catch(() => '');
+      return {
+        success: response.ok,
+        deliveryId,
+        statusCode: response.status,
+        durationMs: Date.now() - startedAt,
+        responseBody: responseBody.slice(0, MAX_TEST_RESPONSE_LENGTH),
+        error: response.ok ? undefined : `HTTP ${response.status}: ${response.statusText}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        deliveryId,
+        durationMs: Date.now() - startedAt,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * Send a signed webhook request
+   */
+  private async send(url: string, payload: any, secret: string | undefined, deliveryId: string): Promise<Response> {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      [WEBHOOK_HEADERS.DELIVERY_ID]: deliveryId,
+      [WEBHOOK_HEADERS.TIMESTAMP]: String(timestamp),
+    };
+    if (secret) {
+      headers[WEBHOOK_HEADERS.SIGNATURE] = computeWebhookSignature(secret, timestamp, body);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    try {
+      return await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Webhook timed out after ${this.options.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Schedule the next automatic attempt of a pending delivery
+   */
+  private schedule(delivery: WebhookDelivery): void {
+    const delay = Math.max(0, (delivery.nextAttemptAt?.getTime() || 0) - Date.now());
+    const timer = setTimeout(() => {
+      this.timers.delete(delivery.id);
+      this.process(delivery.id).catch((error) => {
+        console.error(`Failed to process webhook delivery ${delivery.id}:`, error);
+      });
+    }, delay);
+
+    this.timers.set(delivery.id, timer);
+  }
+
+  /**
+   * Run one automatic attempt and decide whether to retry or dead-letter
+   */
+  private async process(deliveryId: string): Promise<void> {
+    if (this.inFlight.has(deliveryId)) {
+      return;
+    }
+    this.inFlight.add(deliveryId);
+
+    try {
+      const delivery = await this.deliveries.findById(deliveryId);
+      if (!delivery || delivery.status !== WebhookDeliveryStatus.PENDING) {
+        return;
+      }
+
+      const webhook = await this.webhooks.findById(delivery.webhookId);
+      if (!webhook || !webhook.active) {
+        delivery.attempts.push({
+          attemptedAt: new Date(),
+          durationMs: 0,
+          error: webhook ? 'Subscription is inactive' : 'Subscription was deleted',
+        });
+        await this.deadLetter(delivery);
+        return;
+      }
+
+      const attempt = await this.attempt(delivery, webhook, false);
+      delivery.attempts.push(attempt);
+      delivery.updatedAt = new Date();
+
+      if (!attempt.error) {
+        delivery.status = WebhookDeliveryStatus.SUCCEEDED;
+        delivery.nextAttemptAt = undefined;
+        await this.deliveries.save(delivery);
+        await this.recordSuccess(webhook.id);
+        return;
+      }
+
+      const automaticAttempts = delivery.attempts.filter((a) => !a.manual).length;
+      if (automaticAttempts >= this.options.maxAttempts) {
+        await this.deadLetter(delivery);
+        await this.recordDeadLetter(webhook.id);
+        return;
+      }
+
+      const backoff = Math.min(
+        this.options.maxBackoffMs,
+        this.options.initialBackoffMs * 2 ** (automaticAttempts - 1)
+      );
+      delivery.nextAttemptAt = new Date(Date.now() + backoff);
+      await this.deliveries.save(delivery);
+      this.schedule(delivery);
+    } finally {
+      this.inFlight.delete(deliveryId);
+    }
+  }
+
+  /**
+   * Deliver to the subscription and record the outcome
+   */
+  private async attempt(
+    delivery: WebhookDelivery,
+    webhook: WebhookSubscription,
+    manual: boolean
+  ): Promise<WebhookDeliveryAttempt> {
+    const attemptedAt = new Date();
+    const attempt: WebhookDeliveryAttempt = { attemptedAt, durationMs: 0 };
+    if (manual) {
+      attempt.manual = true;
+    }
+
+    try {
+      const response = await this.send(webhook.url, delivery.payload, webhook.secret, delivery.id);
+      attempt.statusCode = response.status;
+      if (!response.ok) {
+        attempt.error = `HTTP ${response.status}: ${response.statusText}`;
+      }
+    } catch (error) {
+      attempt.error = (error as Error).message;
+    }
+
+    attempt.durationMs = Date.now() - attemptedAt.getTime();
+    if (attempt.error) {
+      console.error(`Webhook delivery ${delivery.id} to ${webhook.url} failed:`, attempt.error);
+    }
+
+    return attempt;
+  }
+
+  /**
+   * Move a delivery to the dead-letter state
+   */
+  private async deadLetter(delivery: WebhookDelivery): Promise<void> {
+    delivery.status = WebhookDeliveryStatus.DEAD_LETTERED;
+    delivery.nextAttemptAt = undefined;
+    delivery.updatedAt = new Date();
+    await this.deliveries.save(delivery);
+  }
+
+  /**
+   * Reset the subscription's failure count after a successful delivery
+   */
+  private async recordSuccess(webhookId: string): Promise<void> {
+    const webhook = await this.webhooks.findById(webhookId);
+    if (webhook && webhook.consecutiveFailures) {
+      webhook.consecutiveFailures = 0;
+      await this.webhooks.save(webhook);
+    }
+  }
+
+  /**
+   * Count a dead-lettered delivery and deactivate subscriptions that keep failing
+   */
+  private async recordDeadLetter(webhookId: string): Promise<void> {
+    const webhook = await this.webhooks.findById(webhookId);
+    if (!webhook) {
+      return;
+    }
+
+    webhook.consecutiveFailures = (webhook.consecutiveFailures || 0) + 1;
+    if (webhook.active && webhook.consecutiveFailures >= this.options.deactivateAfterFailures) {
+      webhook.active = false;
+      webhook.deactivatedAt = new Date();
+      console.warn(
+        `Webhook ${webhook.id} deactivated after ${webhook.consecutiveFailures} consecutive failed deliveries`
+      );
+    }
+    await this.webhooks.save(webhook);
+  }
+}
@@ -5,20 +5,56 @@
 export const API_ROUTES = {
   // Orders
   CREATE_ORDER: '/v1/orders',
+  CREATE_ORDER_BATCH: '/v1/orders/batch',
   GET_ORDER: '/v1/orders/:orderId',
   QUERY_ORDER: '/v1/orders/:orderId/query',
   CANCEL_ORDER: '/v1/orders/:orderId/cancel',
+  GET_ORDER_LABEL: '/v1/orders/:orderId/label',
+
+  // Rates
+  QUOTE_RATES: '/v1/rates',
+
+  // Routing
+  GET_ROUTING_RULES: '/v1/routing/rules',
+  UPDATE_ROUTING_RULES: '/v1/routing/rules',
+  GET_ORDER_WORKFLOW_RULES: '/v1/routing/workflows',
+  UPDATE_ORDER_WORKFLOW_RULES: '/v1/routing/workflows',
+
+  // Pickups
+  SCHEDULE_PICKUP: '/v1/pickups',
+  LIST_PICKUPS: '/v1/pickups',
+  GET_PICKUP: '/v1/pickups/:pickupId',
+  CANCEL_PICKUP: '/v1/pickups/:pickupId/cancel',
 
   // Providers
   LIST_PROVIDERS: '/v1/providers',
   CONFIGURE_PROVIDER: '/v1/providers/:providerId/configure',
 
+  // Carriers
+  CARRIER_CALLBACK: '/v1/carriers/:providerId/callback',
+
   // Webhooks
   CREATE_WEBHOOK: '/v1/webhooks',
   LIST_WEBHOOKS: '/v1/webhooks',
   GET_WEBHOOK: '/v1/webhooks/:webhookId',
   UPDATE_WEBHOOK: '/v1/webhooks/:webhookId',
   DELETE_WEBHOOK: '/v1/webhooks/:webhookId',
+  TEST_WEBHOOK: '/v1/webhooks/:webhookId/test',
+  LIST_WEBHOOK_DELIVERIES: '/v1/webhooks/:webhookId/deliveries',
+  REDELIVER_WEBHOOK: '/v1/webhooks/:webhookId/deliveries/:deliveryId/redeliver',
+
+  // Workflows
+  CREATE_WORKFLOW: '/v1/workflows',
+  LIST_WORKFLOWS: '/v1/workflows',
+  GET_WORKFLOW: '/v1/workflows/:workflowId',
+  UPDATE_WORKFLOW: '/v1/workflows/:workflowId',
+  DELETE_WORKFLOW: '/v1/workflows/:workflowId',
+  LIST_WORKFLOW_VERSIONS: '/v1/workflows/:workflowId/versions',
+  GET_WORKFLOW_GRAPH: '/v1/workflows/:workflowId/graph',
+  LIST_WORKFLOW_EXECUTIONS: '/v1/workflow-executions',
+  GET_WORKFLOW_EXECUTION: '/v1/workflow-executions/:executionId',
+  CANCEL_WORKFLOW_EXECUTION: '/v1/workflow-executions/:executionId/cancel',
+  RERUN_WORKFLOW_EXECUTION: '/v1/workflow-executions/:executionId/rerun',
 
   // Free Shipping
   CHECK_FREE_SHIPPING: '/v1/orders/:orderId/free-shipping',
@@ -28,3 +64,7 @@ export const API_ROUTES = {
   HEALTH: '/health',
 } as const;
 
+/**
+ * Header identifying the tenant a request is made for
+ */
+export const TENANT_HEADER = 'x-tenant-id';
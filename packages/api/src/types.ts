@@ -1,10 +1,19 @@
 import {
   CreateOrderRequest,
   QueryOrderRequest,
+  RateQuoteRequest,
+  RateQuote,
+  RateQuoteFailure,
+  ShippingOrder,
   ProviderId,
   WebhookEventType,
+  WebhookPayload,
+  WorkflowReference,
+  Repository,
 } from '@oneship/core';
 
+export type { RateQuoteFailure } from '@oneship/core';
+
 /**
  * API request/response types
  */
@@ -18,25 +27,108 @@ export interface ApiResponse<T> {
 
 export interface CreateOrderApiRequest extends CreateOrderRequest {
   webhookUrl?: string;
+  workflow?: WorkflowReference; // Overrides the tenant's and the default order workflow
+}
+
+export interface BatchCreateOrderApiRequest {
+  orders: CreateOrderApiRequest[];
+  concurrency?: number; // Orders created in parallel per provider
+}
+
+export interface BatchOrderResult {
+  index: number; // Position in the request's orders array
+  success: boolean;
+  order?: ShippingOrder;
+  error?: string;
+}
+
+export interface BatchCreateOrderApiResponse {
+  results: BatchOrderResult[];
+  succeeded: number;
+  failed: number;
 }
 
 export interface QueryOrderApiRequest {
   orderId: string;
 }
 
+export interface RateQuoteApiRequest extends RateQuoteRequest {
+  providers?: ProviderId[]; // Limit quoting to these providers, defaults to all initialized
+}
+
+export interface RateQuoteApiResponse {
+  quotes: RateQuote[]; // Sorted by price, cheapest first
+  failures: RateQuoteFailure[];
+}
+
 export interface WebhookSubscriptionRequest {
   url: string;
   events: WebhookEventType[];
   secret?: string;
 }
 
+export interface WebhookSubscriptionUpdateRequest {
+  url?: string;
+  events?: WebhookEventType[];
+  secret?: string | null; // A new secret rotates it, null removes it
+  active?: boolean; // Reactivating resets the failure count
+}
+
+export interface WebhookTestResult {
+  success: boolean;
+  deliveryId: string;
+  statusCode?: number;
+  durationMs: number;
+  responseBody?: string; // Truncated receiver response
+  error?: string;
+}
+
 export interface WebhookSubscription {
   id: string;
   url: string;
   events: WebhookEventType[];
   secret?: string;
   createdAt: Date;
+  updatedAt?: Date;
   active: boolean;
+  consecutiveFailures?: number; // Dead-lettered deliveries since the last success
+  deactivatedAt?: Date; // Set when deactivated automatically after repeated failures
+}
+
+export type WebhookSubscriptionRepository = Repository<WebhookSubscription>;
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  DEAD_LETTERED = 'dead_lettered',
+}
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: Date;
+  durationMs: number;
+  statusCode?: number;
+  error?: string;
+  manual?: boolean; // Triggered through the redeliver API
+}
+
+export interface WebhookDelivery {
+  id: string; // Sent as the delivery ID header on every attempt
+  webhookId: string;
+  url: string;
+  event: WebhookEventType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type WebhookDeliveryRepository = Repository<WebhookDelivery>;
+
+export interface OrderWorkflowRules {
+  defaultWorkflow?: WorkflowReference; // Used when neither the request nor the tenant selects a workflow
+  tenants?: Record<string, WorkflowReference>; // Tenant ID from the tenant header -> workflow
 }
 
 export interface ProviderConfigRequest {
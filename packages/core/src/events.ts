@@ -3,7 +3,9 @@ import {
   WebhookEventType,
   WebhookPayload,
   ShippingOrder,
+  OrderStatusTransition,
   FreeShippingNotification,
+  Pickup,
 } from './types';
 
 /**
@@ -36,6 +38,24 @@ export class OneShipEventEmitter extends EventEmitter {
     } as WebhookPayload);
   }
 
+  /**
+   * Emit order status changed event
+   */
+  emitOrderStatusChanged(order: ShippingOrder, transition: OrderStatusTransition): void {
+    this.emit('order.status_changed', {
+      event: WebhookEventType.ORDER_STATUS_CHANGED,
+      timestamp: new Date(),
+      data: {
+        order,
+        previousStatus: transition.from,
+        status: transition.to,
+        source: transition.source,
+      },
+      orderId: order.id,
+      provider: order.provider,
+    } as WebhookPayload);
+  }
+
   /**
    * Emit order delivered event
    */
@@ -49,6 +69,71 @@ export class OneShipEventEmitter extends EventEmitter {
     } as WebhookPayload);
   }
 
+  /**
+   * Emit order delivery exception event
+   */
+  emitOrderException(order: ShippingOrder): void {
+    this.emit('order.exception', {
+      event: WebhookEventType.ORDER_EXCEPTION,
+      timestamp: new Date(),
+      data: order,
+      orderId: order.id,
+      provider: order.provider,
+    } as WebhookPayload);
+  }
+
+  /**
+   * Emit order returning to sender event
+   */
+  emitOrderReturning(order: ShippingOrder): void {
+    this.emit('order.returning', {
+      event: WebhookEventType.ORDER_RETURNING,
+      timestamp: new Date(),
+      data: order,
+      orderId: order.id,
+      provider: order.provider,
+    } as WebhookPayload);
+  }
+
+  /**
+   * Emit order returned to sender event
+   */
+  emitOrderReturned(order: ShippingOrder): void {
+    this.emit('order.returned', {
+      event: WebhookEventType.ORDER_RETURNED,
+      timestamp: new Date(),
+      data: order,
+      orderId: order.id,
+      provider: order.provider,
+    } as WebhookPayload);
+  }
+
+  /**
+   * Emit order lost event
+   */
+  emitOrderLost(order: ShippingOrder): void {
+    this.emit('order.lost', {
+      event: WebhookEventType.ORDER_LOST,
+      timestamp: new Date(),
+      data: order,
+      orderId: order.id,
+      provider: order.provider,
+    } as WebhookPayload);
+  }
+
+  /**
+   * Emit order damaged event
+   */
+  emitOrderDamaged(order: ShippingOrder): void {
+    this.emit('order.damaged', {
+      event: WebhookEventType.ORDER_DAMAGED,
+      timestamp: new Date(),
+      data: order,
+      orderId: order.id,
+      provider: order.provider,
+    } as WebhookPayload);
+  }
+
   /**
    * Emit free shipping detected event
    */
@@ -74,5 +159,28 @@ export class OneShipEventEmitter extends EventEmitter {
       provider: notification.provider,
     } as WebhookPayload);
   }
-}
 
+  /**
+   * Emit pickup scheduled event
+   */
+  emitPickupScheduled(pickup: Pickup): void {
+    this.emit('pickup.scheduled', {
+      event: WebhookEventType.PICKUP_SCHEDULED,
+      timestamp: new Date(),
+      data: pickup,
+      provider: pickup.provider,
+    } as WebhookPayload);
+  }
+
+  /**
+   * Emit pickup completed event
+   */
+  emitPickupCompleted(pickup: Pickup): void {
+    this.emit('pickup.completed', {
+      event: WebhookEventType.PICKUP_COMPLETED,
+      timestamp: new Date(),
+      data: pickup,
+      provider: pickup.provider,
+    } as WebhookPayload);
+  }
+}
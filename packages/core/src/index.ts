@@ -1,4 +1,6 @@
 export * from './types';
 export * from './interfaces';
 export * from './events';
-
+export * from './order-state-machine';
+export * from './repositories';
+export * from './webhook-signature';
@@ -1,10 +1,12 @@
 import {
   ProviderId,
   ShippingOrder,
-  OrderStatus,
+  TrackingEvent,
   Address,
   ShippingItem,
   FreeShippingNotification,
+  Pickup,
+  PickupTimeWindow,
 } from './types';
 
 /**
@@ -22,7 +24,7 @@ export interface ProviderConfig {
  * Create order request
  */
 export interface CreateOrderRequest {
-  provider: ProviderId;
+  provider?: ProviderId; // Omit or use 'auto' to select a courier by routing rules
   from: Address;
   to: Address;
   items: ShippingItem[];
@@ -55,13 +57,134 @@ export interface QueryOrderResponse {
 }
 
 /**
- * Tracking event
+ * Raw push notification received from a courier
+ */
+export interface CarrierCallbackRequest {
+  headers: Record<string, string | string[] | undefined>;
+  body: string; // Raw request body, couriers sign the exact bytes they send
+}
+
+/**
+ * Tracking events pushed by a courier for one waybill
+ */
+export interface CarrierTrackingUpdate {
+  orderNumber: string; // Provider's order number
+  events: TrackingEvent[];
+}
+
+/**
+ * Parsed courier push notification
+ */
+export interface CarrierCallbackResult {
+  updates: CarrierTrackingUpdate[];
+  acknowledgement: any; // Response body the courier expects
+}
+
+/**
+ * Rate quote request
  */
-export interface TrackingEvent {
-  timestamp: Date;
-  status: OrderStatus;
-  location?: string;
-  description: string;
+export interface RateQuoteRequest {
+  from: Address;
+  to: Address;
+  items: ShippingItem[];
+}
+
+/**
+ * Rate quote returned by a provider
+ */
+export interface RateQuote {
+  provider: ProviderId;
+  serviceType?: string;
+  price: number; // in the quote currency
+  currency: string;
+  chargeableWeight: number; // in kg
+  estimatedDelivery: Date;
+  estimatedDays: number;
+}
+
+/**
+ * Shipping label output format
+ * - pdf: 100x150mm page for office and laser printers
+ * - zpl: Zebra Programming Language for thermal label printers
+ */
+export type LabelFormat = 'pdf' | 'zpl';
+
+/**
+ * Get label request
+ */
+export interface GetLabelRequest {
+  order: ShippingOrder;
+  format: LabelFormat;
+}
+
+/**
+ * Shipping label (electronic waybill, 电子面单)
+ */
+export interface ShippingLabel {
+  orderId: string;
+  trackingNumber: string;
+  format: LabelFormat;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * Schedule pickup request
+ */
+export interface SchedulePickupRequest {
+  provider: ProviderId;
+  timeWindow: PickupTimeWindow;
+  address: Address; // Sender address the courier collects from
+  parcelCount: number;
+  orderIds: string[];
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Schedule pickup response
+ */
+export interface SchedulePickupResponse {
+  pickup: Pickup;
+}
+
+/**
+ * Weight band routing rule, matches when minWeight <= total weight < maxWeight
+ */
+export interface WeightBandRule {
+  minWeight?: number; // in kg
+  maxWeight?: number; // in kg
+  providers: ProviderId[];
+}
+
+/**
+ * Rules used to select a courier for orders without an explicit provider
+ */
+export interface RoutingRules {
+  strategy: 'cheapest' | 'fastest';
+  preferredByProvince?: Record<string, ProviderId>; // Destination province -> provider
+  weightBands?: WeightBandRule[];
+  excludedProviders?: ProviderId[];
+}
+
+/**
+ * Courier selection outcome, recorded in order metadata for auditing
+ */
+export interface RoutingDecision {
+  provider: ProviderId;
+  rule: 'preferred_province' | 'cheapest' | 'fastest';
+  reason: string;
+  candidates: ProviderId[];
+  quote?: RateQuote;
+  failedQuotes?: RateQuoteFailure[]; // Candidates that could not quote, left out of the comparison
+  decidedAt: Date;
+}
+
+/**
+ * A candidate courier whose rate quote failed during automatic selection
+ */
+export interface RateQuoteFailure {
+  provider: ProviderId;
+  error: string;
 }
 
 /**
@@ -98,6 +221,31 @@ export interface IProvider {
    */
   cancelOrder(orderId: string): Promise<void>;
 
+  /**
+   * Quote price and estimated delivery for a shipment without creating an order
+   */
+  quoteRate(request: RateQuoteRequest): Promise<RateQuote>;
+
+  /**
+   * Get the electronic waybill label for a created order
+   */
+  getLabel(request: GetLabelRequest): Promise<ShippingLabel>;
+
+  /**
+   * Book a courier pickup
+   */
+  schedulePickup(request: SchedulePickupRequest): Promise<SchedulePickupResponse>;
+
+  /**
+   * Cancel a courier pickup
+   */
+  cancelPickup(pickupId: string): Promise<void>;
+
+  /**
+   * Verify and parse a push notification sent by the courier to OneShip's callback URL
+   */
+  handleCallback?(request: CarrierCallbackRequest): Promise<CarrierCallbackResult>;
+
   /**
    * Check for free shipping opportunities
    * This method should be called periodically to detect free shipping
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ORDER_STATUS_TRANSITIONS, canTransitionOrder, transitionOrder } from './order-state-machine';
+import { Address, OrderStatus, OrderStatusSource, ShippingOrder } from './types';
+
+const address: Address = { name: 'Sender', phone: '13800000000', address: '1 Nanjing Rd', province: '上海' };
+
+function order(status: OrderStatus): ShippingOrder {
+  const createdAt = new Date('2024-03-01T08:00:00Z');
+  return {
+    id: 'order-1',
+    provider: 'zto',
+    status,
+    from: address,
+    to: address,
+    items: [],
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+describe('canTransitionOrder', () => {
+  it('allows forward jumps and resuming transit after an exception', () => {
+    assert.equal(canTransitionOrder(OrderStatus.CREATED, OrderStatus.DELIVERED), true);
+    assert.equal(canTransitionOrder(OrderStatus.EXCEPTION, OrderStatus.IN_TRANSIT), true);
+    assert.equal(canTransitionOrder(OrderStatus.LOST, OrderStatus.DELIVERED), true);
+  });
+
+  it('rejects moving backwards, cancelling picked up parcels and leaving final statuses', () => {
+    assert.equal(canTransitionOrder(OrderStatus.IN_TRANSIT, OrderStatus.PICKED_UP), false);
+    assert.equal(canTransitionOrder(OrderStatus.PICKED_UP, OrderStatus.CANCELLED), false);
+    assert.equal(canTransitionOrder(OrderStatus.RETURNING, OrderStatus.DELIVERED), false);
+    for (const status of [OrderStatus.DELIVERED, OrderStatus.RETURNED, OrderStatus.FAILED, OrderStatus.CANCELLED]) {
+      assert.deepEqual(ORDER_STATUS_TRANSITIONS[status], []);
+      assert.equal(canTransitionOrder(status, OrderStatus.IN_TRANSIT), false);
+    }
+  });
+});
+
+describe('transitionOrder', () => {
+  it('changes the status and appends the transition to the history', () => {
+    const shipped = order(OrderStatus.CREATED);
+    const pickedUp = transitionOrder(shipped, OrderStatus.PICKED_UP, OrderStatusSource.POLL);
+    transitionOrder(shipped, OrderStatus.DELIVERED, OrderStatusSource.COURIER_PUSH);
+
+    assert.equal(shipped.status, OrderStatus.DELIVERED);
+    assert.deepEqual(pickedUp, {
+      from: OrderStatus.CREATED,
+      to: OrderStatus.PICKED_UP,
+      source: OrderStatusSource.POLL,
+      at: pickedUp.at,
+    });
+    assert.deepEqual(
+      shipped.statusHistory?.map((transition) => [transition.from, transition.to, transition.source]),
+      [
+        [OrderStatus.CREATED, OrderStatus.PICKED_UP, 'poll'],
+        [OrderStatus.PICKED_UP, OrderStatus.DELIVERED, 'courier_push'],
+      ]
+    );
+    assert.equal(shipped.updatedAt, shipped.statusHistory![1].at);
+  });
+
+  it('throws on illegal transitions and leaves the order untouched', () => {
+    const delivered = order(OrderStatus.DELIVERED);
+
+    assert.throws(
+      () => transitionOrder(delivered, OrderStatus.CANCELLED, OrderStatusSource.API),
+      /Order order-1 cannot change from delivered to cancelled/
+    );
+    assert.equal(delivered.status, OrderStatus.DELIVERED);
+    assert.equal(delivered.statusHistory, undefined);
+    assert.equal(delivered.updatedAt.toISOString(), '2024-03-01T08:00:00.000Z');
+  });
+});
@@ -0,0 +1,104 @@
+import { OrderStatus, OrderStatusSource, OrderStatusTransition, ShippingOrder } from './types';
+
+/**
+ * Problems that can happen while the courier holds the parcel
+ */
+const IN_CUSTODY_PROBLEMS: OrderStatus[] = [
+  OrderStatus.EXCEPTION,
+  OrderStatus.RETURNING,
+  OrderStatus.LOST,
+  OrderStatus.DAMAGED,
+];
+
+/**
+ * Statuses each order status may move to
+ *
+ * Couriers may skip intermediate scans, so forward jumps are allowed. Backward
+ * moves are limited to resuming transit after a failed delivery attempt or a
+ * resolved exception, and a lost parcel may turn up again.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.CREATED, OrderStatus.FAILED, OrderStatus.CANCELLED],
+  [OrderStatus.CREATED]: [
+    OrderStatus.PICKED_UP,
+    OrderStatus.IN_TRANSIT,
+    OrderStatus.OUT_FOR_DELIVERY,
+    OrderStatus.DELIVERED,
+    OrderStatus.EXCEPTION,
+    OrderStatus.FAILED,
+    OrderStatus.CANCELLED,
+  ],
+  [OrderStatus.PICKED_UP]: [
+    OrderStatus.IN_TRANSIT,
+    OrderStatus.OUT_FOR_DELIVERY,
+    OrderStatus.DELIVERED,
+    ...IN_CUSTODY_PROBLEMS,
+    OrderStatus.FAILED,
+  ],
+  [OrderStatus.IN_TRANSIT]: [
+    OrderStatus.OUT_FOR_DELIVERY,
+    OrderStatus.DELIVERED,
+    ...IN_CUSTODY_PROBLEMS,
+    OrderStatus.FAILED,
+  ],
+  [OrderStatus.OUT_FOR_DELIVERY]: [
+    OrderStatus.IN_TRANSIT,
+    OrderStatus.DELIVERED,
+    ...IN_CUSTODY_PROBLEMS,
+    OrderStatus.FAILED,
+  ],
+  [OrderStatus.EXCEPTION]: [
+    OrderStatus.IN_TRANSIT,
+    OrderStatus.OUT_FOR_DELIVERY,
+    OrderStatus.DELIVERED,
+    OrderStatus.RETURNING,
+    OrderStatus.LOST,
+    OrderStatus.DAMAGED,
+    OrderStatus.FAILED,
+  ],
+  [OrderStatus.RETURNING]: [
+    OrderStatus.RETURNED,
+    OrderStatus.EXCEPTION,
+    OrderStatus.LOST,
+    OrderStatus.DAMAGED,
+  ],
+  [OrderStatus.LOST]: [OrderStatus.IN_TRANSIT, OrderStatus.DELIVERED, OrderStatus.RETURNING],
+  [OrderStatus.DAMAGED]: [OrderStatus.DELIVERED, OrderStatus.RETURNING, OrderStatus.RETURNED],
+  [OrderStatus.DELIVERED]: [],
+  [OrderStatus.RETURNED]: [],
+  [OrderStatus.FAILED]: [],
+  [OrderStatus.CANCELLED]: [],
+};
+
+/**
+ * Check whether an order may move from one status to another
+ */
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return (ORDER_STATUS_TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Move an order to a new status and record the transition, throwing on illegal transitions
+ */
+export function transitionOrder(
+  order: ShippingOrder,
+  to: OrderStatus,
+  source: OrderStatusSource
+): OrderStatusTransition {
+  if (!canTransitionOrder(order.status, to)) {
+    throw new Error(`Order ${order.id} cannot change from ${order.status} to ${to}`);
+  }
+
+  const transition: OrderStatusTransition = {
+    from: order.status,
+    to,
+    source,
+    at: new Date(),
+  };
+
+  order.status = to;
+  order.statusHistory = [...(order.statusHistory || []), transition];
+  order.updatedAt = transition.at;
+
+  return transition;
+}
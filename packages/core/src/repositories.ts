@@ -0,0 +1,57 @@
+import {
+  ShippingOrder,
+  FreeShippingNotification,
+  Pickup,
+  WorkflowExecution,
+  WorkflowDefinitionRecord,
+} from './types';
+
+/**
+ * Generic repository for persisting entities by ID
+ */
+export interface Repository<T extends { id: string }> {
+  /**
+   * Find entity by ID
+   */
+  findById(id: string): Promise<T | undefined>;
+
+  /**
+   * Find all entities, optionally matching a filter
+   */
+  findAll(filter?: (entity: T) => boolean): Promise<T[]>;
+
+  /**
+   * Insert or replace entity
+   */
+  save(entity: T): Promise<void>;
+
+  /**
+   * Delete entity by ID
+   */
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Shipping order repository
+ */
+export type OrderRepository = Repository<ShippingOrder>;
+
+/**
+ * Free shipping notification repository
+ */
+export type FreeShippingNotificationRepository = Repository<FreeShippingNotification>;
+
+/**
+ * Courier pickup repository
+ */
+export type PickupRepository = Repository<Pickup>;
+
+/**
+ * Workflow execution repository
+ */
+export type WorkflowExecutionRepository = Repository<WorkflowExecution>;
+
+/**
+ * Workflow definition repository
+ */
+export type WorkflowDefinitionRepository = Repository<WorkflowDefinitionRecord>;
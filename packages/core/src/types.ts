@@ -8,6 +8,11 @@ export enum OrderStatus {
   IN_TRANSIT = 'in_transit',
   OUT_FOR_DELIVERY = 'out_for_delivery',
   DELIVERED = 'delivered',
+  EXCEPTION = 'exception', // Delivery exception, e.g. failed attempt or refused by recipient
+  RETURNING = 'returning', // On its way back to the sender
+  RETURNED = 'returned', // Returned to the sender
+  LOST = 'lost',
+  DAMAGED = 'damaged',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
 }
@@ -23,6 +28,11 @@ export type ProviderId =
   | 'yunda'       // 韵达
   | string;
 
+/**
+ * Pseudo provider ID that lets OneShip pick a courier using routing rules
+ */
+export const AUTO_PROVIDER_ID = 'auto';
+
 /**
  * Address information
  */
@@ -47,6 +57,57 @@ export interface ShippingItem {
   description?: string;
 }
 
+/**
+ * What caused an order status change
+ */
+export enum OrderStatusSource {
+  API = 'api',
+  POLL = 'poll', // queryOrder against the courier
+  COURIER_PUSH = 'courier_push', // Courier push notification
+}
+
+/**
+ * Recorded order status change
+ */
+export interface OrderStatusTransition {
+  from: OrderStatus;
+  to: OrderStatus;
+  source: OrderStatusSource;
+  at: Date;
+}
+
+/**
+ * Courier-independent tracking sub-status, finer grained than OrderStatus
+ */
+export enum TrackingSubStatus {
+  PICKED_UP = 'picked_up',
+  DEPARTED_FACILITY = 'departed_facility',
+  ARRIVED_AT_SORTING_CENTER = 'arrived_at_sorting_center',
+  ARRIVED_AT_DELIVERY_STATION = 'arrived_at_delivery_station',
+  OUT_FOR_DELIVERY = 'out_for_delivery',
+  DELIVERY_ATTEMPT_FAILED = 'delivery_attempt_failed',
+  RECIPIENT_REFUSED = 'recipient_refused', // 拒收
+  HANDED_TO_LOCKER = 'handed_to_locker', // 快递柜
+  HANDED_TO_PICKUP_POINT = 'handed_to_pickup_point', // 驿站 / 代收点
+  DELIVERED = 'delivered',
+  RETURNING_TO_SENDER = 'returning_to_sender',
+  RETURNED_TO_SENDER = 'returned_to_sender',
+  LOST = 'lost', // 遗失
+  DAMAGED = 'damaged', // 破损
+}
+
+/**
+ * Tracking event
+ */
+export interface TrackingEvent {
+  timestamp: Date;
+  status: OrderStatus;
+  subStatus?: TrackingSubStatus;
+  rawCode?: string; // Courier's own route/op code
+  location?: string;
+  description: string;
+}
+
 /**
  * Shipping order
  */
@@ -55,9 +116,12 @@ export interface ShippingOrder {
   provider: ProviderId;
   orderNumber?: string; // Provider's order number
   status: OrderStatus;
+  subStatus?: TrackingSubStatus; // Sub-status of the latest tracking event
   from: Address;
   to: Address;
   items: ShippingItem[];
+  trackingEvents?: TrackingEvent[]; // Oldest first
+  statusHistory?: OrderStatusTransition[]; // Oldest first
   metadata?: Record<string, any>;
   createdAt: Date;
   updatedAt: Date;
@@ -76,6 +140,40 @@ export interface FreeShippingNotification {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Courier pickup status
+ */
+export enum PickupStatus {
+  SCHEDULED = 'scheduled',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * Pickup time window
+ */
+export interface PickupTimeWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Courier pickup booking
+ */
+export interface Pickup {
+  id: string;
+  provider: ProviderId;
+  pickupNumber?: string; // Provider's pickup booking number
+  status: PickupStatus;
+  timeWindow: PickupTimeWindow;
+  address: Address;
+  parcelCount: number;
+  orderIds: string[];
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * Webhook event types
  */
@@ -83,8 +181,17 @@ export enum WebhookEventType {
   ORDER_CREATED = 'order.created',
   ORDER_UPDATED = 'order.updated',
   ORDER_DELIVERED = 'order.delivered',
+  ORDER_STATUS_CHANGED = 'order.status_changed',
+  ORDER_EXCEPTION = 'order.exception',
+  ORDER_RETURNING = 'order.returning',
+  ORDER_RETURNED = 'order.returned',
+  ORDER_LOST = 'order.lost',
+  ORDER_DAMAGED = 'order.damaged',
   FREE_SHIPPING_DETECTED = 'free_shipping.detected',
   FREE_SHIPPING_EXPIRED = 'free_shipping.expired',
+  PICKUP_SCHEDULED = 'pickup.scheduled',
+  PICKUP_COMPLETED = 'pickup.completed',
+  WEBHOOK_TEST = 'webhook.test', // Synthetic event sent by the webhook test endpoint
 }
 
 /**
@@ -107,6 +214,109 @@ export enum WorkflowStepStatus {
   SUCCESS = 'success',
   FAILED = 'failed',
   SKIPPED = 'skipped',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * Workflow step definition
+ */
+export interface WorkflowStepDefinition {
+  id: string;
+  name: string;
+  type:
+    | 'create_order'
+    | 'query_order'
+    | 'cancel_order'
+    | 'check_free_shipping'
+    | 'webhook'
+    | 'delay'
+    | 'condition'
+    | 'parallel'
+    | 'join'
+    | 'sub_workflow';
+  provider?: ProviderId;
+  config?: Record<string, any>;
+  onSuccess?: string; // Next step ID on success
+  onFailure?: string; // Next step ID on failure
+  retry?: WorkflowRetryPolicy;
+  timeout?: number; // Per attempt, in milliseconds
+  compensate?: WorkflowCompensationDefinition; // Undoes the step when the execution fails later on
+}
+
+/**
+ * When and how often a failed step is attempted again
+ *
+ * Errors are matched by `retryOn` and `doNotRetryOn` on their `name` or `code`,
+ * step timeouts are `TimeoutError`s.
+ */
+export interface WorkflowRetryPolicy {
+  maxAttempts: number;
+  delay: number; // Before the first retry, in milliseconds
+  backoff?: 'fixed' | 'exponential'; // Default fixed
+  multiplier?: number; // Growth of exponential delays per attempt, default 2
+  maxDelay?: number; // Upper bound of exponential delays, in milliseconds
+  jitter?: boolean; // Wait a random time between 0 and the computed delay
+  retryOn?: string[]; // Only retry these errors
+  doNotRetryOn?: string[]; // Never retry these errors
+}
+
+/**
+ * Action that undoes a successful step, e.g. cancelling the order it created
+ *
+ * Compensations run like steps of the given type, with the compensated step's
+ * output in their context. Branching fields of their results are ignored.
+ */
+export interface WorkflowCompensationDefinition {
+  type: WorkflowStepDefinition['type'];
+  provider?: ProviderId; // Defaults to the compensated step's provider
+  config?: Record<string, any>;
+  retry?: WorkflowRetryPolicy;
+  timeout?: number; // Per attempt, in milliseconds
+}
+
+/**
+ * Event that starts a workflow, manual workflows are only started explicitly
+ */
+export type WorkflowTriggerEvent = 'manual' | 'order_created' | 'order_updated' | 'free_shipping_detected';
+
+/**
+ * Trigger with filters, the workflow starts only for events matching every filter
+ */
+export interface WorkflowTriggerDefinition {
+  event: WorkflowTriggerEvent;
+  providers?: ProviderId[];
+  statuses?: OrderStatus[]; // Order status after the event, only for order triggers
+}
+
+/**
+ * Workflow definition
+ */
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  version?: number; // Assigned when stored, stored versions never change
+  steps: WorkflowStepDefinition[];
+  trigger: WorkflowTriggerEvent | WorkflowTriggerDefinition;
+}
+
+/**
+ * Stored workflow definition with every published version
+ */
+export interface WorkflowDefinitionRecord {
+  id: string; // Workflow ID
+  versions: WorkflowDefinition[]; // Oldest first
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt?: Date; // Deleted workflows keep their versions for executions pinned to them
+}
+
+/**
+ * Reference to a workflow, the latest version when no version is given
+ */
+export interface WorkflowReference {
+  workflowId: string;
+  version?: number;
 }
 
 /**
@@ -115,14 +325,49 @@ export enum WorkflowStepStatus {
 export interface WorkflowExecution {
   id: string;
   workflowId: string;
-  orderId: string;
+  workflowVersion?: number; // Version the execution is pinned to, unset for built-in workflows
+  parentExecutionId?: string; // Execution whose sub_workflow step started this one
+  parentStepId?: string;
+  orderId?: string;
   status: WorkflowStepStatus;
   steps: WorkflowStep[];
+  currentStepId?: string; // Next step to run, checkpointed after every step
+  context?: Record<string, any>; // Accumulated context, checkpointed after every step
+  attempts?: Record<string, number>; // Attempt counts of the current step by step ID
+  wakeUpAt?: Date; // Set while the execution waits on a delay step
+  branches?: Record<string, WorkflowBranch>; // Branches of the running parallel step by first step ID
   startedAt: Date;
   completedAt?: Date;
   error?: string;
 }
 
+/**
+ * Graph formats a workflow can be exported as
+ */
+export type WorkflowGraphFormat = 'mermaid' | 'dot';
+
+/**
+ * Criteria for listing workflow executions, all optional
+ */
+export interface WorkflowExecutionFilter {
+  workflowId?: string;
+  parentExecutionId?: string;
+  orderId?: string;
+  status?: WorkflowStepStatus;
+  startedAfter?: Date;
+  startedBefore?: Date;
+}
+
+/**
+ * Progress of one branch of a parallel step, checkpointed after every branch step
+ */
+export interface WorkflowBranch {
+  currentStepId?: string; // Next step to run in the branch
+  status: WorkflowStepStatus; // SKIPPED when an `any` join no longer needed the branch
+  output: Record<string, any>; // Outputs of the branch's steps merged in order
+  error?: string;
+}
+
 /**
  * Workflow step
  */
@@ -130,6 +375,9 @@ export interface WorkflowStep {
   id: string;
   name: string;
   status: WorkflowStepStatus;
+  branch?: string; // First step ID of the parallel branch the step ran in
+  compensation?: boolean; // Set on compensations, which keep the ID of the step they undo
+  attempts?: WorkflowStepAttempt[]; // Oldest first, attempts made before a restart are not included
   provider?: ProviderId;
   input?: Record<string, any>;
   output?: Record<string, any>;
@@ -138,3 +386,15 @@ export interface WorkflowStep {
   completedAt?: Date;
 }
 
+/**
+ * One attempt at running a workflow step
+ */
+export interface WorkflowStepAttempt {
+  attempt: number; // 1 for the first attempt
+  startedAt: Date;
+  completedAt?: Date;
+  error?: string;
+  timedOut?: boolean; // Abandoned after the step's timeout while its call kept running
+  lateOutput?: Record<string, any>; // Output of a timed out attempt whose call succeeded afterwards
+}
+
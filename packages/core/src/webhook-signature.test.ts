@@ -0,0 +1,19 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeWebhookSignature } from './webhook-signature';
+
+describe('computeWebhookSignature', () => {
+  it('signs "<timestamp>.<body>" with HMAC-SHA256 of the secret', () => {
+    assert.equal(
+      computeWebhookSignature('whsec_test', 1700000000, '{"event":"order.created"}'),
+      'sha256=44ccdd37cc0cde29381624e0495514ce79007393020fddb05c89075cd26cc6bd'
+    );
+  });
+
+  it('changes with the secret, the timestamp and the body', () => {
+    const signature = computeWebhookSignature('whsec_test', 1700000000, '{}');
+    assert.notEqual(computeWebhookSignature('whsec_other', 1700000000, '{}'), signature);
+    assert.notEqual(computeWebhookSignature('whsec_test', 1700000001, '{}'), signature);
+    assert.notEqual(computeWebhookSignature('whsec_test', 1700000000, '{ }'), signature);
+  });
+});
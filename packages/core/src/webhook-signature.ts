@@ -0,0 +1,18 @@
+import { createHmac } from 'crypto';
+
+/**
+ * Headers sent with every webhook delivery
+ */
+export const WEBHOOK_HEADERS = {
+  SIGNATURE: 'X-OneShip-Signature', // sha256=<hex HMAC of "<timestamp>.<body>">
+  TIMESTAMP: 'X-OneShip-Timestamp', // Unix time in seconds
+  DELIVERY_ID: 'X-OneShip-Delivery', // Unique per delivery, use it to drop replays
+} as const;
+
+/**
+ * Compute the webhook signature header value for a delivery
+ */
+export function computeWebhookSignature(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Address, RateQuoteRequest } from '@oneship/core';
+import { SFExpressProvider } from './sf-express';
+import { ZTOProvider } from './zto';
+
+const shanghai: Address = { name: 'Sender', phone: '13800000000', address: '1 Nanjing Rd', province: '上海' };
+const guangzhou: Address = { name: 'Recipient', phone: '13900000000', address: '2 Tianhe Rd', province: '广东' };
+const shenzhen: Address = { ...guangzhou, address: '3 Futian Rd' };
+
+function quoteRequest(from: Address, to: Address, ...weights: number[]): RateQuoteRequest {
+  return { from, to, items: weights.map((weight, index) => ({ name: `item-${index}`, quantity: 1, weight })) };
+}
+
+describe('quoteRate', () => {
+  it('prices the chargeable weight, rounded up to 0.5 kg, by zone', async () => {
+    const zto = new ZTOProvider();
+    await zto.initialize({ id: 'zto', apiKey: 'key' });
+
+    const crossProvince = await zto.quoteRate(quoteRequest(shanghai, guangzhou, 1.2, 1));
+    assert.equal(crossProvince.provider, 'zto');
+    assert.equal(crossProvince.chargeableWeight, 2.5);
+    assert.equal(crossProvince.price, 12.75);
+    assert.equal(crossProvince.currency, 'CNY');
+    assert.equal(crossProvince.estimatedDays, 3);
+
+    const sameProvince = await zto.quoteRate(quoteRequest(guangzhou, shenzhen, 0.3));
+    assert.equal(sameProvince.chargeableWeight, 1);
+    assert.equal(sameProvince.price, 7);
+    assert.equal(sameProvince.estimatedDays, 2);
+  });
+
+  it('uses each courier its own rate table', async () => {
+    const sf = new SFExpressProvider();
+    await sf.initialize({ id: 'sf-express', apiKey: 'key' });
+
+    const quote = await sf.quoteRate(quoteRequest(guangzhou, shenzhen, 1));
+    assert.equal(quote.price, 12);
+    assert.equal(quote.estimatedDays, 1);
+  });
+
+  it('rejects quotes before initialization and without items', async () => {
+    const zto = new ZTOProvider();
+    await assert.rejects(zto.quoteRate(quoteRequest(shanghai, guangzhou, 1)), /Provider zto is not initialized/);
+
+    await zto.initialize({ id: 'zto', apiKey: 'key' });
+    await assert.rejects(zto.quoteRate(quoteRequest(shanghai, guangzhou)), /missing required fields/);
+  });
+});
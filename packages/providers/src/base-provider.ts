@@ -1,3 +1,4 @@
+import { createHash, timingSafeEqual } from 'crypto';
 import {
   IProvider,
   ProviderId,
@@ -6,8 +7,37 @@ import {
   CreateOrderResponse,
   QueryOrderRequest,
   QueryOrderResponse,
+  RateQuoteRequest,
+  RateQuote,
+  GetLabelRequest,
+  ShippingLabel,
+  SchedulePickupRequest,
+  SchedulePickupResponse,
+  CarrierCallbackRequest,
+  CarrierCallbackResult,
+  CarrierTrackingUpdate,
+  TrackingEvent,
+  ShippingItem,
   FreeShippingNotification,
 } from '@oneship/core';
+import { StatusMappingTable } from './status-mapping';
+
+/**
+ * First-weight plus continued-weight prices and transit time for one zone, prices in CNY
+ */
+export interface RateZone {
+  firstWeightPrice: number; // First kg
+  continuedWeightPrice: number; // Every further kg
+  estimatedDays: number;
+}
+
+/**
+ * Standard service rates by zone
+ */
+export interface RateTable {
+  sameProvince: RateZone;
+  crossProvince: RateZone;
+}
 
 /**
  * Base provider class that all courier providers should extend
@@ -19,6 +49,11 @@ export abstract class BaseProvider implements IProvider {
   abstract readonly id: ProviderId;
   abstract readonly name: string;
 
+  /**
+   * Courier route/op codes mapped to normalized statuses
+   */
+  protected readonly statusMapping: StatusMappingTable = {};
+
   /**
    * Initialize provider with configuration
    */
@@ -98,6 +133,249 @@ export abstract class BaseProvider implements IProvider {
    */
   protected abstract doCancelOrder(orderId: string): Promise<void>;
 
+  /**
+   * Quote price and estimated delivery for a shipment
+   */
+  async quoteRate(request: RateQuoteRequest): Promise<RateQuote> {
+    if (!this.config) {
+      throw new Error(`Provider ${this.id} is not initialized`);
+    }
+
+    this.validateRateQuoteRequest(request);
+
+    return await this.doQuoteRate(request);
+  }
+
+  /**
+   * Provider-specific rate quote implementation
+   */
+  protected abstract doQuoteRate(request: RateQuoteRequest): Promise<RateQuote>;
+
+  /**
+   * Validate rate quote request
+   */
+  protected validateRateQuoteRequest(request: RateQuoteRequest): void {
+    if (!request.from || !request.to || !request.items || request.items.length === 0) {
+      throw new Error('Invalid rate quote request: missing required fields');
+    }
+  }
+
+  /**
+   * Quote the standard service from a rate table by chargeable weight and zone
+   */
+  protected quoteFromRateTable(request: RateQuoteRequest, table: RateTable): RateQuote {
+    const chargeableWeight = this.calculateChargeableWeight(request.items);
+    const sameProvince = !!request.from.province && request.from.province === request.to.province;
+    const zone = sameProvince ? table.sameProvince : table.crossProvince;
+
+    return {
+      provider: this.id,
+      serviceType: 'standard',
+      price: Math.round((zone.firstWeightPrice + (chargeableWeight - 1) * zone.continuedWeightPrice) * 100) / 100,
+      currency: 'CNY',
+      chargeableWeight,
+      estimatedDelivery: new Date(Date.now() + zone.estimatedDays * 24 * 60 * 60 * 1000),
+      estimatedDays: zone.estimatedDays,
+    };
+  }
+
+  /**
+   * Calculate chargeable weight in kg, rounded up to the next 0.5 kg with a 1 kg minimum
+   */
+  protected calculateChargeableWeight(items: ShippingItem[]): number {
+    const total = items.reduce((sum, item) => sum + item.weight * item.quantity, 0);
+    return Math.max(1, Math.ceil(total * 2) / 2);
+  }
+
+  /**
+   * Get the electronic waybill label for a created order
+   */
+  async getLabel(request: GetLabelRequest): Promise<ShippingLabel> {
+    if (!this.config) {
+      throw new Error(`Provider ${this.id} is not initialized`);
+    }
+
+    if (request.format !== 'pdf' && request.format !== 'zpl') {
+      throw new Error(`Unsupported label format: ${request.format}`);
+    }
+    if (!request.order.orderNumber) {
+      throw new Error(`Order ${request.order.id} has no tracking number yet`);
+    }
+
+    return await this.doGetLabel(request);
+  }
+
+  /**
+   * Provider-specific label retrieval implementation
+   */
+  protected abstract doGetLabel(request: GetLabelRequest): Promise<ShippingLabel>;
+
+  /**
+   * Book a courier pickup
+   */
+  async schedulePickup(request: SchedulePickupRequest): Promise<SchedulePickupResponse> {
+    if (!this.config) {
+      throw new Error(`Provider ${this.id} is not initialized`);
+    }
+
+    this.validateSchedulePickupRequest(request);
+
+    return await this.doSchedulePickup(request);
+  }
+
+  /**
+   * Provider-specific pickup booking implementation
+   */
+  protected abstract doSchedulePickup(request: SchedulePickupRequest): Promise<SchedulePickupResponse>;
+
+  /**
+   * Validate schedule pickup request
+   */
+  protected validateSchedulePickupRequest(request: SchedulePickupRequest): void {
+    if (!request.address || !request.timeWindow || !request.orderIds || request.orderIds.length === 0) {
+      throw new Error('Invalid schedule pickup request: missing required fields');
+    }
+    if (!request.address.phone) {
+      throw new Error('Invalid schedule pickup request: phone number is required');
+    }
+    if (!Number.isInteger(request.parcelCount) || request.parcelCount < 1) {
+      throw new Error('Invalid schedule pickup request: parcel count must be a positive integer');
+    }
+    const start = new Date(request.timeWindow.start).getTime();
+    const end = new Date(request.timeWindow.end).getTime();
+    if (isNaN(start) || isNaN(end) || start >= end) {
+      throw new Error('Invalid schedule pickup request: time window must end after it starts');
+    }
+    if (end <= Date.now()) {
+      throw new Error('Invalid schedule pickup request: time window is in the past');
+    }
+  }
+
+  /**
+   * Cancel a courier pickup
+   */
+  async cancelPickup(pickupId: string): Promise<void> {
+    if (!this.config) {
+      throw new Error(`Provider ${this.id} is not initialized`);
+    }
+
+    await this.doCancelPickup(pickupId);
+  }
+
+  /**
+   * Provider-specific pickup cancellation implementation
+   */
+  protected abstract doCancelPickup(pickupId: string): Promise<void>;
+
+  /**
+   * Verify and parse a courier push notification
+   */
+  async handleCallback?(request: CarrierCallbackRequest): Promise<CarrierCallbackResult> {
+    if (!this.config) {
+      throw new Error(`Provider ${this.id} is not initialized`);
+    }
+    if (!this.doHandleCallback) {
+      throw new Error(`Provider ${this.id} does not support push notifications`);
+    }
+
+    return await this.doHandleCallback(request);
+  }
+
+  /**
+   * Provider-specific push notification implementation
+   */
+  protected doHandleCallback?(request: CarrierCallbackRequest): Promise<CarrierCallbackResult>;
+
+  /**
+   * Verify a push notification signed with base64(md5(body + API secret)), the scheme used by SF, YTO and ZTO
+   */
+  protected verifyCallbackDigest(request: CarrierCallbackRequest, headerName: string): void {
+    const secret = this.config?.apiSecret;
+    if (!secret) {
+      throw new Error(`Provider ${this.id} has no API secret to verify push notifications`);
+    }
+
+    const header = request.headers[headerName.toLowerCase()];
+    const digest = Buffer.from((Array.isArray(header) ? header[0] : header) || '');
+    const expected = Buffer.from(
+      createHash('md5').update(request.body + secret, 'utf8').digest('base64')
+    );
+    if (digest.length !== expected.length || !timingSafeEqual(digest, expected)) {
+      throw new Error('Invalid push notification signature');
+    }
+  }
+
+  /**
+   * Parse a JSON push notification body
+   */
+  protected parseCallbackBody<T>(request: CarrierCallbackRequest): T {
+    try {
+      return JSON.parse(request.body) as T;
+    } catch {
+      throw new Error('Invalid push notification payload');
+    }
+  }
+
+  /**
+   * Parse a courier timestamp such as "2024-01-01 12:00:00", couriers report China Standard Time
+   */
+  protected parseCourierTime(value: string): Date {
+    const date = new Date(`${String(value).trim().replace(' ', 'T')}+08:00`);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid courier timestamp: ${value}`);
+    }
+    return date;
+  }
+
+  /**
+   * Creation time of an order with a mock waybill number, which ends with the time it was created
+   *
+   * Mock tracking events are stamped relative to it, so repeated queries report the same scans.
+   */
+  protected mockCreatedAt(orderNumber: string): Date {
+    const createdAt = orderNumber.match(/\d{13}$/);
+    return new Date(createdAt ? Number(createdAt[0]) : 0);
+  }
+
+  /**
+   * Build a tracking event from a courier code, undefined when the code is not in the status mapping table
+   */
+  protected createTrackingEvent(
+    rawCode: string,
+    timestamp: Date,
+    description: string,
+    location?: string
+  ): TrackingEvent | undefined {
+    const mapping = this.statusMapping[rawCode];
+    if (!mapping) {
+      return undefined;
+    }
+
+    return {
+      timestamp,
+      status: mapping.status,
+      subStatus: mapping.subStatus,
+      rawCode,
+      location,
+      description,
+    };
+  }
+
+  /**
+   * Group tracking events by waybill number
+   */
+  protected groupTrackingEvents(
+    entries: Array<{ orderNumber: string; event: TrackingEvent }>
+  ): CarrierTrackingUpdate[] {
+    const updates = new Map<string, CarrierTrackingUpdate>();
+    entries.forEach(({ orderNumber, event }) => {
+      const update = updates.get(orderNumber) || { orderNumber, events: [] };
+      update.events.push(event);
+      updates.set(orderNumber, update);
+    });
+    return Array.from(updates.values());
+  }
+
   /**
    * Check for free shipping opportunities
    */
@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CreateOrderRequest, IProvider, RateQuote } from '@oneship/core';
+import { CourierRouter } from './courier-router';
+
+/**
+ * Provider that quotes `price` and `days`, or fails to quote when `price` is null
+ */
+function quoting(id: string, price: number | null, days: number, quoted: string[] = []): IProvider {
+  return {
+    id,
+    quoteRate: async (): Promise<RateQuote> => {
+      quoted.push(id);
+      if (price === null) {
+        throw new Error(`${id} is down`);
+      }
+      const estimatedDelivery = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+      return { provider: id, price, currency: 'CNY', chargeableWeight: 1, estimatedDays: days, estimatedDelivery };
+    },
+  } as unknown as IProvider;
+}
+
+function orderRequest(weight: number, province: string = '广东'): CreateOrderRequest {
+  return {
+    from: { name: 'Sender', phone: '13800000000', address: '1 Nanjing Rd', province: '上海' },
+    to: { name: 'Recipient', phone: '13900000000', address: '2 Tianhe Rd', province },
+    items: [{ name: 'Parcel', quantity: 1, weight }],
+  };
+}
+
+const providers = [quoting('sf-express', 18, 1), quoting('yto', 10, 3), quoting('zto', 9, 3)];
+
+describe('CourierRouter', () => {
+  it('picks the cheapest or the fastest quote', async () => {
+    const cheapest = await new CourierRouter().select(orderRequest(1), providers);
+    assert.equal(cheapest.provider, 'zto');
+    assert.equal(cheapest.rule, 'cheapest');
+    assert.deepEqual(cheapest.candidates, ['sf-express', 'yto', 'zto']);
+
+    const fastest = await new CourierRouter({ strategy: 'fastest' }).select(orderRequest(1), providers);
+    assert.equal(fastest.provider, 'sf-express');
+    assert.equal(fastest.rule, 'fastest');
+  });
+
+  it('falls back to the next best courier when one fails to quote', async () => {
+    const decision = await new CourierRouter().select(orderRequest(1), [
+      quoting('sf-express', 18, 1),
+      quoting('yto', 10, 3),
+      quoting('zto', null, 3),
+    ]);
+
+    assert.equal(decision.provider, 'yto');
+    assert.deepEqual(decision.failedQuotes, [{ provider: 'zto', error: 'zto is down' }]);
+  });
+
+  it('fails when no courier quotes or none is left after exclusions', async () => {
+    await assert.rejects(
+      new CourierRouter().select(orderRequest(1), [quoting('yto', null, 3), quoting('zto', null, 3)]),
+      /No courier returned a rate quote for automatic selection \(yto: yto is down; zto: zto is down\)/
+    );
+    await assert.rejects(
+      new CourierRouter({ strategy: 'cheapest', excludedProviders: ['zto'] }).select(orderRequest(1), [
+        quoting('zto', 9, 3),
+      ]),
+      /No courier available for automatic selection/
+    );
+  });
+
+  it('uses the preferred courier for the destination province without quoting', async () => {
+    const quoted: string[] = [];
+    const router = new CourierRouter({ strategy: 'cheapest', preferredByProvince: { 广东: 'sf-express' } });
+    const candidates = [quoting('sf-express', 18, 1, quoted), quoting('zto', 9, 3, quoted)];
+
+    const preferred = await router.select(orderRequest(1), candidates);
+    assert.equal(preferred.provider, 'sf-express');
+    assert.equal(preferred.rule, 'preferred_province');
+    assert.deepEqual(quoted, []);
+
+    const elsewhere = await router.select(orderRequest(1, '浙江'), candidates);
+    assert.equal(elsewhere.provider, 'zto');
+  });
+
+  it('only considers the couriers of the matching weight band and skips excluded ones', async () => {
+    const router = new CourierRouter({
+      strategy: 'cheapest',
+      excludedProviders: ['zto'],
+      weightBands: [
+        { maxWeight: 5, providers: ['yto', 'zto'] },
+        { minWeight: 5, providers: ['sf-express'] },
+      ],
+    });
+
+    assert.equal((await router.select(orderRequest(2), providers)).provider, 'yto');
+    const heavy = await router.select(orderRequest(12), providers);
+    assert.equal(heavy.provider, 'sf-express');
+    assert.match(heavy.reason, /in weight band for 12 kg/);
+  });
+});
+
+describe('CourierRouter.setRules', () => {
+  it('rejects invalid rules and keeps the previous ones', () => {
+    const router = new CourierRouter();
+    const known = ['sf-express', 'yto', 'zto'];
+
+    assert.throws(() => router.setRules({ strategy: 'random' as any }), /Invalid routing strategy: random/);
+    assert.throws(
+      () => router.setRules({ strategy: 'cheapest', preferredByProvince: { 广东: 'ems' } }, known),
+      /preferredByProvince\.广东 references unknown provider ems/
+    );
+    assert.throws(
+      () =>
+        router.setRules({
+          strategy: 'cheapest',
+          weightBands: [
+            { maxWeight: 10, providers: ['zto'] },
+            { minWeight: 5, providers: ['sf-express'] },
+          ],
+        }),
+      /weightBands\[1\] overlaps or comes before weightBands\[0\]/
+    );
+    const emptyBand = { minWeight: 5, maxWeight: 5, providers: ['zto'] };
+    assert.throws(
+      () => router.setRules({ strategy: 'cheapest', weightBands: [emptyBand] }),
+      /weightBands\[0\]\.minWeight must be less than maxWeight/
+    );
+    assert.deepEqual(router.getRules(), { strategy: 'cheapest' });
+
+    router.setRules({ strategy: 'fastest', excludedProviders: ['yto'] }, known);
+    assert.deepEqual(router.getRules(), { strategy: 'fastest', excludedProviders: ['yto'] });
+  });
+});
@@ -0,0 +1,212 @@
+import {
+  IProvider,
+  CreateOrderRequest,
+  RateQuote,
+  RateQuoteFailure,
+  ProviderId,
+  RoutingRules,
+  RoutingDecision,
+  WeightBandRule,
+} from '@oneship/core';
+
+/**
+ * Default routing rules - pick the cheapest quoted courier
+ */
+export const DEFAULT_ROUTING_RULES: RoutingRules = {
+  strategy: 'cheapest',
+};
+
+/**
+ * Courier router for selecting a provider when the caller does not pick one
+ */
+export class CourierRouter {
+  private rules: RoutingRules;
+
+  constructor(rules: RoutingRules = DEFAULT_ROUTING_RULES) {
+    this.rules = rules;
+  }
+
+  /**
+   * Get current routing rules
+   */
+  getRules(): RoutingRules {
+    return this.rules;
+  }
+
+  /**
+   * Replace routing rules
+   *
+   * When `knownProviders` is given, every provider the rules name must be one of them.
+   */
+  setRules(rules: RoutingRules, knownProviders?: ProviderId[]): void {
+    if (rules.strategy !== 'cheapest' && rules.strategy !== 'fastest') {
+      throw new Error(`Invalid routing strategy: ${rules.strategy}`);
+    }
+
+    const checkProvider = (providerId: unknown, location: string) => {
+      if (typeof providerId !== 'string' || !providerId) {
+        throw new Error(`${location} must be a provider ID`);
+      }
+      if (knownProviders && !knownProviders.includes(providerId)) {
+        throw new Error(`${location} references unknown provider ${providerId}`);
+      }
+    };
+
+    if (rules.preferredByProvince !== undefined) {
+      if (!rules.preferredByProvince || typeof rules.preferredByProvince !== 'object') {
+        throw new Error('preferredByProvince must be an object');
+      }
+      Object.entries(rules.preferredByProvince).forEach(([province, providerId]) => {
+        checkProvider(providerId, `preferredByProvince.${province}`);
+      });
+    }
+
+    if (rules.excludedProviders !== undefined) {
+      if (!Array.isArray(rules.excludedProviders)) {
+        throw new Error('excludedProviders must be an array');
+      }
+      rules.excludedProviders.forEach((providerId, index) => {
+        checkProvider(providerId, `excludedProviders[${index}]`);
+      });
+    }
+
+    if (rules.weightBands !== undefined) {
+      if (!Array.isArray(rules.weightBands)) {
+        throw new Error('weightBands must be an array');
+      }
+      rules.weightBands.forEach((band, index) => {
+        this.validateWeightBand(band, index, checkProvider);
+        // Bands must be sorted and must not overlap, so at most one matches any weight
+        const previous = rules.weightBands![index - 1];
+        if (previous && (previous.maxWeight === undefined || previous.maxWeight > (band.minWeight ?? 0))) {
+          throw new Error(`weightBands[${index}] overlaps or comes before weightBands[${index - 1}]`);
+        }
+      });
+    }
+
+    this.rules = rules;
+  }
+
+  /**
+   * Select a provider for the order from the given initialized providers
+   */
+  async select(request: CreateOrderRequest, providers: IProvider[]): Promise<RoutingDecision> {
+    const excluded = this.rules.excludedProviders || [];
+    let candidates = providers.filter((p) => !excluded.includes(p.id));
+
+    const totalWeight = request.items.reduce((sum, item) => sum + item.weight * item.quantity, 0);
+    const band = this.findWeightBand(totalWeight);
+    if (band) {
+      candidates = candidates.filter((p) => band.providers.includes(p.id));
+    }
+
+    if (candidates.length === 0) {
+      throw new Error('No courier available for automatic selection');
+    }
+
+    const candidateIds = candidates.map((p) => p.id);
+    const province = request.to.province;
+    const preferred = province ? this.rules.preferredByProvince?.[province] : undefined;
+    if (preferred && candidateIds.includes(preferred)) {
+      return {
+        provider: preferred,
+        rule: 'preferred_province',
+        reason: `Preferred courier for destination province ${province}`,
+        candidates: candidateIds,
+        decidedAt: new Date(),
+      };
+    }
+
+    const { quotes, failures } = await this.collectQuotes(request, candidates);
+    if (quotes.length === 0) {
+      const details = failures.map((failure) => `${failure.provider}: ${failure.error}`).join('; ');
+      throw new Error(`No courier returned a rate quote for automatic selection (${details})`);
+    }
+
+    const strategy = this.rules.strategy;
+    const [best] = quotes.sort((a, b) =>
+      strategy === 'fastest'
+        ? a.estimatedDays - b.estimatedDays || a.price - b.price
+        : a.price - b.price || a.estimatedDays - b.estimatedDays
+    );
+
+    const reason =
+      strategy === 'fastest'
+        ? `Fastest of ${quotes.length} quoted couriers (${best.estimatedDays} days)`
+        : `Cheapest of ${quotes.length} quoted couriers (${best.price} ${best.currency})`;
+
+    return {
+      provider: best.provider,
+      rule: strategy,
+      reason: band ? `${reason} in weight band for ${totalWeight} kg` : reason,
+      candidates: candidateIds,
+      quote: best,
+      failedQuotes: failures.length > 0 ? failures : undefined,
+      decidedAt: new Date(),
+    };
+  }
+
+  /**
+   * Check the weights and providers of one weight band
+   */
+  private validateWeightBand(
+    band: WeightBandRule,
+    index: number,
+    checkProvider: (providerId: unknown, location: string) => void
+  ): void {
+    const location = `weightBands[${index}]`;
+    if (!band || typeof band !== 'object') {
+      throw new Error(`${location} must be an object`);
+    }
+    (['minWeight', 'maxWeight'] as const).forEach((field) => {
+      const weight = band[field];
+      if (weight !== undefined && (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0)) {
+        throw new Error(`${location}.${field} must be a non-negative number`);
+      }
+    });
+    if (band.minWeight !== undefined && band.maxWeight !== undefined && band.minWeight >= band.maxWeight) {
+      throw new Error(`${location}.minWeight must be less than maxWeight`);
+    }
+    if (!Array.isArray(band.providers) || band.providers.length === 0) {
+      throw new Error(`${location}.providers must be a non-empty array`);
+    }
+    band.providers.forEach((providerId, providerIndex) => {
+      checkProvider(providerId, `${location}.providers[${providerIndex}]`);
+    });
+  }
+
+  /**
+   * Find the first weight band matching the total weight
+   */
+  private findWeightBand(totalWeight: number): WeightBandRule | undefined {
+    return this.rules.weightBands?.find(
+      (band) =>
+        (band.minWeight === undefined || totalWeight >= band.minWeight) &&
+        (band.maxWeight === undefined || totalWeight < band.maxWeight)
+    );
+  }
+
+  /**
+   * Collect rate quotes, setting aside providers that fail to quote
+   */
+  private async collectQuotes(
+    request: CreateOrderRequest,
+    providers: IProvider[]
+  ): Promise<{ quotes: RateQuote[]; failures: RateQuoteFailure[] }> {
+    const results = await Promise.allSettled(
+      providers.map((p) => p.quoteRate({ from: request.from, to: request.to, items: request.items }))
+    );
+
+    const quotes: RateQuote[] = [];
+    const failures: RateQuoteFailure[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        quotes.push(result.value);
+      } else {
+        const error = (result.reason as Error)?.message ?? String(result.reason);
+        failures.push({ provider: providers[index].id, error });
+      }
+    });
+    return { quotes, failures };
+  }
+}
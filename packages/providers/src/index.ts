@@ -1,5 +1,8 @@
 export * from './base-provider';
 export * from './provider-registry';
+export * from './courier-router';
+export * from './status-mapping';
+export * from './waybill-label';
 export * from './sf-express';
 export * from './yto';
 export * from './zto';
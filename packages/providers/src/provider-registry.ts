@@ -62,6 +62,13 @@ export class ProviderRegistry {
     return this.providers.get(providerId);
   }
 
+  /**
+   * Get all initialized providers
+   */
+  getAllInitialized(): IProvider[] {
+    return this.getAll().filter((provider) => this.isInitialized(provider.id));
+  }
+
   /**
    * Unregister a provider
    */
@@ -1,10 +1,21 @@
-import { BaseProvider } from './base-provider';
+import { BaseProvider, RateTable } from './base-provider';
+import { renderWaybillLabel } from './waybill-label';
+import { SF_EXPRESS_STATUS_MAPPING } from './status-mapping';
 import {
   ProviderId,
   CreateOrderRequest,
   CreateOrderResponse,
   QueryOrderRequest,
   QueryOrderResponse,
+  RateQuoteRequest,
+  RateQuote,
+  GetLabelRequest,
+  ShippingLabel,
+  SchedulePickupRequest,
+  SchedulePickupResponse,
+  PickupStatus,
+  CarrierCallbackRequest,
+  CarrierCallbackResult,
   ShippingOrder,
   OrderStatus,
   FreeShippingNotification,
@@ -18,12 +29,28 @@ function uuidv4(): string {
   });
 }
 
+/**
+ * SF Express route push entry
+ */
+interface SFRoutePush {
+  mailno: string;
+  opCode: string;
+  acceptTime: string;
+  acceptAddress?: string;
+  remark?: string;
+}
+
 /**
  * SF Express (顺丰) provider implementation
  */
 export class SFExpressProvider extends BaseProvider {
   readonly id: ProviderId = 'sf-express';
   readonly name = 'SF Express (顺丰)';
+  protected readonly statusMapping = SF_EXPRESS_STATUS_MAPPING;
+  private readonly rateTable: RateTable = {
+    sameProvince: { firstWeightPrice: 12, continuedWeightPrice: 2, estimatedDays: 1 },
+    crossProvince: { firstWeightPrice: 18, continuedWeightPrice: 5, estimatedDays: 2 },
+  };
 
   private apiClient: any; // In real implementation, this would be the SF Express API client
 
@@ -61,29 +88,27 @@ export class SFExpressProvider extends BaseProvider {
     // In real implementation, call SF Express API
     // const response = await this.apiClient.queryOrder(request.orderId);
 
-    // Mock implementation
+    // Mock implementation - the courier reports a single route with code 30 (离开中转场)
+    // an hour after the order was created, the mock waybill number carries the creation time
+    const createdAt = this.mockCreatedAt(request.orderId);
+    const scannedAt = new Date(createdAt.getTime() + 60 * 60 * 1000);
+    const event = this.createTrackingEvent('30', scannedAt, 'Package is in transit', 'Shanghai')!;
     const order: ShippingOrder = {
       id: request.orderId,
       provider: this.id,
-      orderNumber: `SF${Date.now()}`,
-      status: OrderStatus.IN_TRANSIT,
+      orderNumber: request.orderId,
+      status: event.status,
+      subStatus: event.subStatus,
       from: { name: '', phone: '', address: '' },
       to: { name: '', phone: '', address: '' },
       items: [],
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      createdAt,
+      updatedAt: scannedAt,
     };
 
     return {
       order,
-      trackingEvents: [
-        {
-          timestamp: new Date(),
-          status: OrderStatus.IN_TRANSIT,
-          location: 'Shanghai',
-          description: 'Package is in transit',
-        },
-      ],
+      trackingEvents: [event],
     };
   }
 
@@ -92,6 +117,84 @@ export class SFExpressProvider extends BaseProvider {
     // await this.apiClient.cancelOrder(orderId);
   }
 
+  protected async doQuoteRate(request: RateQuoteRequest): Promise<RateQuote> {
+    // In real implementation, call SF Express rate API
+    // const response = await this.apiClient.queryRate({...});
+
+    // Mock implementation - first-weight plus continued-weight pricing
+    return this.quoteFromRateTable(request, this.rateTable);
+  }
+
+  protected async doGetLabel(request: GetLabelRequest): Promise<ShippingLabel> {
+    // In real implementation, request the label from SF Express cloud printing
+    // const response = await this.apiClient.printWaybill({...});
+
+    // Mock implementation - render the standard waybill layout locally
+    const { order } = request;
+    return renderWaybillLabel(
+      {
+        orderId: order.id,
+        providerName: this.name,
+        productName: '顺丰标快',
+        trackingNumber: order.orderNumber!,
+        from: order.from,
+        to: order.to,
+        items: order.items,
+        createdAt: order.createdAt,
+      },
+      request.format
+    );
+  }
+
+  protected async doSchedulePickup(request: SchedulePickupRequest): Promise<SchedulePickupResponse> {
+    // In real implementation, call SF Express pickup API
+    // const response = await this.apiClient.bookPickup({...});
+
+    // Mock implementation
+    return {
+      pickup: {
+        id: uuidv4(),
+        provider: this.id,
+        pickupNumber: `SFP${Date.now()}`,
+        status: PickupStatus.SCHEDULED,
+        timeWindow: request.timeWindow,
+        address: request.address,
+        parcelCount: request.parcelCount,
+        orderIds: request.orderIds,
+        metadata: request.metadata,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    };
+  }
+
+  protected async doCancelPickup(pickupId: string): Promise<void> {
+    // In real implementation, call SF Express API
+    // await this.apiClient.cancelPickup(pickupId);
+  }
+
+  protected async doHandleCallback(request: CarrierCallbackRequest): Promise<CarrierCallbackResult> {
+    // SF Express signs route pushes with base64(md5(body + checkword))
+    this.verifyCallbackDigest(request, 'msgDigest');
+    const payload = this.parseCallbackBody<{ WaybillRoute?: SFRoutePush[] }>(request);
+
+    // Routes with operation codes missing from the mapping table are informational only
+    const entries = (payload.WaybillRoute || []).flatMap((route) => {
+      const event = this.createTrackingEvent(
+        route.opCode,
+        this.parseCourierTime(route.acceptTime),
+        route.remark || '',
+        route.acceptAddress
+      );
+      return event ? [{ orderNumber: route.mailno, event }] : [];
+    });
+
+    return {
+      updates: this.groupTrackingEvents(entries),
+      acknowledgement: { return_code: '0000', return_msg: '成功' },
+    };
+  }
+
   protected async doCheckFreeShipping(orderId: string): Promise<FreeShippingNotification | null> {
     // In real implementation, check SF Express free shipping promotions
     // This could involve checking their API for active promotions
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { OrderStatus, TrackingSubStatus, canTransitionOrder } from '@oneship/core';
+import { SF_EXPRESS_STATUS_MAPPING, YTO_STATUS_MAPPING, ZTO_STATUS_MAPPING } from './status-mapping';
+
+const TABLES = {
+  'sf-express': SF_EXPRESS_STATUS_MAPPING,
+  yto: YTO_STATUS_MAPPING,
+  zto: ZTO_STATUS_MAPPING,
+};
+
+describe('status mapping tables', () => {
+  it('map every courier to the same normalized milestones', () => {
+    for (const [courier, table] of Object.entries(TABLES)) {
+      const subStatuses = new Set(Object.values(table).map((mapping) => mapping.subStatus));
+      for (const subStatus of [
+        TrackingSubStatus.PICKED_UP,
+        TrackingSubStatus.OUT_FOR_DELIVERY,
+        TrackingSubStatus.DELIVERED,
+        TrackingSubStatus.RETURNING_TO_SENDER,
+        TrackingSubStatus.LOST,
+      ]) {
+        assert.equal(subStatuses.has(subStatus), true, `${courier} has no code for ${subStatus}`);
+      }
+    }
+  });
+
+  it('keep locker and pickup point drop-offs open until the parcel is collected or returned', () => {
+    const dropOffs = Object.entries(TABLES).flatMap(([courier, table]) =>
+      Object.entries(table)
+        .filter(([, mapping]) =>
+          [TrackingSubStatus.HANDED_TO_LOCKER, TrackingSubStatus.HANDED_TO_PICKUP_POINT].includes(mapping.subStatus)
+        )
+        .map(([code, mapping]) => ({ code: `${courier} ${code}`, status: mapping.status }))
+    );
+
+    assert.equal(dropOffs.length, 4);
+    for (const { code, status } of dropOffs) {
+      assert.equal(status, OrderStatus.OUT_FOR_DELIVERY, code);
+      assert.equal(canTransitionOrder(status, OrderStatus.DELIVERED), true, code);
+      assert.equal(canTransitionOrder(status, OrderStatus.RETURNING), true, code);
+    }
+  });
+
+  it('only use DELIVERED for signed-for parcels', () => {
+    for (const [courier, table] of Object.entries(TABLES)) {
+      Object.entries(table)
+        .filter(([, mapping]) => mapping.status === OrderStatus.DELIVERED)
+        .forEach(([code, mapping]) => {
+          assert.equal(mapping.subStatus, TrackingSubStatus.DELIVERED, `${courier} ${code}`);
+        });
+    }
+  });
+});
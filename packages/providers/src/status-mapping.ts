@@ -0,0 +1,73 @@
+import { OrderStatus, TrackingSubStatus } from '@oneship/core';
+
+/**
+ * Normalized status for one courier route/op code
+ */
+export interface StatusMapping {
+  status: OrderStatus;
+  subStatus: TrackingSubStatus;
+}
+
+/**
+ * Courier route/op codes mapped to normalized statuses
+ *
+ * Parcels left in a locker or at a pickup point stay OUT_FOR_DELIVERY until they are
+ * collected, as an uncollected parcel is still returned to the sender.
+ */
+export type StatusMappingTable = Record<string, StatusMapping>;
+
+/**
+ * SF Express route push operation codes
+ */
+export const SF_EXPRESS_STATUS_MAPPING: StatusMappingTable = {
+  '50': { status: OrderStatus.PICKED_UP, subStatus: TrackingSubStatus.PICKED_UP }, // 已揽收
+  '30': { status: OrderStatus.IN_TRANSIT, subStatus: TrackingSubStatus.DEPARTED_FACILITY }, // 离开中转场
+  '31': { status: OrderStatus.IN_TRANSIT, subStatus: TrackingSubStatus.ARRIVED_AT_SORTING_CENTER }, // 到达中转场
+  '130': { status: OrderStatus.IN_TRANSIT, subStatus: TrackingSubStatus.ARRIVED_AT_DELIVERY_STATION }, // 到达派件网点
+  '44': { status: OrderStatus.OUT_FOR_DELIVERY, subStatus: TrackingSubStatus.OUT_FOR_DELIVERY }, // 派送中
+  '70': { status: OrderStatus.EXCEPTION, subStatus: TrackingSubStatus.DELIVERY_ATTEMPT_FAILED }, // 派送失败
+  '648': { status: OrderStatus.EXCEPTION, subStatus: TrackingSubStatus.RECIPIENT_REFUSED }, // 客户拒收
+  '125': { status: OrderStatus.OUT_FOR_DELIVERY, subStatus: TrackingSubStatus.HANDED_TO_LOCKER }, // 已放入丰巢柜
+  '80': { status: OrderStatus.DELIVERED, subStatus: TrackingSubStatus.DELIVERED }, // 已签收
+  '99': { status: OrderStatus.RETURNING, subStatus: TrackingSubStatus.RETURNING_TO_SENDER }, // 退回中
+  '8099': { status: OrderStatus.RETURNED, subStatus: TrackingSubStatus.RETURNED_TO_SENDER }, // 退回签收
+  '611': { status: OrderStatus.LOST, subStatus: TrackingSubStatus.LOST }, // 快件遗失
+  '612': { status: OrderStatus.DAMAGED, subStatus: TrackingSubStatus.DAMAGED }, // 快件破损
+};
+
+/**
+ * YTO track push operation codes
+ */
+export const YTO_STATUS_MAPPING: StatusMappingTable = {
+  GOT: { status: OrderStatus.PICKED_UP, subStatus: TrackingSubStatus.PICKED_UP }, // 已揽收
+  DEPARTURE: { status: OrderStatus.IN_TRANSIT, subStatus: TrackingSubStatus.DEPARTED_FACILITY }, // 已发出
+  ARRIVAL: { status: OrderStatus.IN_TRANSIT, subStatus: TrackingSubStatus.ARRIVED_AT_SORTING_CENTER }, // 已到达
+  SENT_SCAN: { status: OrderStatus.OUT_FOR_DELIVERY, subStatus: TrackingSubStatus.OUT_FOR_DELIVERY }, // 派件中
+  FAILED: { status: OrderStatus.EXCEPTION, subStatus: TrackingSubStatus.DELIVERY_ATTEMPT_FAILED }, // 派送失败
+  REJECT: { status: OrderStatus.EXCEPTION, subStatus: TrackingSubStatus.RECIPIENT_REFUSED }, // 拒收
+  INBOUND: { status: OrderStatus.OUT_FOR_DELIVERY, subStatus: TrackingSubStatus.HANDED_TO_PICKUP_POINT }, // 驿站入库
+  SIGNED: { status: OrderStatus.DELIVERED, subStatus: TrackingSubStatus.DELIVERED }, // 已签收
+  RETURN: { status: OrderStatus.RETURNING, subStatus: TrackingSubStatus.RETURNING_TO_SENDER }, // 退回
+  RETURN_SIGNED: { status: OrderStatus.RETURNED, subStatus: TrackingSubStatus.RETURNED_TO_SENDER }, // 退回签收
+  LOST: { status: OrderStatus.LOST, subStatus: TrackingSubStatus.LOST }, // 遗失
+  DAMAGED: { status: OrderStatus.DAMAGED, subStatus: TrackingSubStatus.DAMAGED }, // 破损
+};
+
+/**
+ * ZTO trace push scan types
+ */
+export const ZTO_STATUS_MAPPING: StatusMappingTable = {
+  收件: { status: OrderStatus.PICKED_UP, subStatus: TrackingSubStatus.PICKED_UP },
+  发件: { status: OrderStatus.IN_TRANSIT, subStatus: TrackingSubStatus.DEPARTED_FACILITY },
+  到件: { status: OrderStatus.IN_TRANSIT, subStatus: TrackingSubStatus.ARRIVED_AT_SORTING_CENTER },
+  派件: { status: OrderStatus.OUT_FOR_DELIVERY, subStatus: TrackingSubStatus.OUT_FOR_DELIVERY },
+  问题件: { status: OrderStatus.EXCEPTION, subStatus: TrackingSubStatus.DELIVERY_ATTEMPT_FAILED },
+  拒收: { status: OrderStatus.EXCEPTION, subStatus: TrackingSubStatus.RECIPIENT_REFUSED },
+  入柜: { status: OrderStatus.OUT_FOR_DELIVERY, subStatus: TrackingSubStatus.HANDED_TO_LOCKER },
+  代收点: { status: OrderStatus.OUT_FOR_DELIVERY, subStatus: TrackingSubStatus.HANDED_TO_PICKUP_POINT },
+  签收: { status: OrderStatus.DELIVERED, subStatus: TrackingSubStatus.DELIVERED },
+  退件: { status: OrderStatus.RETURNING, subStatus: TrackingSubStatus.RETURNING_TO_SENDER },
+  退件签收: { status: OrderStatus.RETURNED, subStatus: TrackingSubStatus.RETURNED_TO_SENDER },
+  遗失: { status: OrderStatus.LOST, subStatus: TrackingSubStatus.LOST },
+  破损: { status: OrderStatus.DAMAGED, subStatus: TrackingSubStatus.DAMAGED },
+};
@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { OrderStatus, ShippingOrder } from '@oneship/core';
+import { WaybillLabelData, defaultSortingCode, renderWaybillLabel } from './waybill-label';
+import { ZTOProvider } from './zto';
+
+const label: WaybillLabelData = {
+  orderId: 'order-1',
+  providerName: '中通快递',
+  trackingNumber: 'ZT1',
+  from: { name: '张三', phone: '13800001234', address: '上海市浦东新区世纪大道1号', province: '上海市' },
+  to: { name: '李四', phone: '13900005678', address: '天河路2号', province: '广东省', city: '广州市' },
+  items: [
+    { name: '运动鞋', quantity: 2, weight: 0.8 },
+    { name: 'T恤^', quantity: 1, weight: 0.25 },
+  ],
+  createdAt: new Date('2024-03-01T08:00:00Z'),
+};
+
+/**
+ * Bar and space widths of the barcode drawn on a PDF label, in modules
+ */
+function pdfBarcodeModules(pdf: string): string {
+  const bars = Array.from(pdf.matchAll(/^([\d.]+) [\d.]+ ([\d.]+) [\d.]+ re f$/gm), (match) => ({
+    x: Number(match[1]),
+    width: Number(match[2]),
+  }));
+  // The start code begins with a bar two modules wide
+  const modulePt = bars[0].width / 2;
+  return bars
+    .flatMap((bar, index) => {
+      const next = bars[index + 1];
+      const widths = [bar.width];
+      if (next) {
+        widths.push(next.x - bar.x - bar.width);
+      }
+      return widths;
+    })
+    .map((width) => Math.round(width / modulePt))
+    .join('');
+}
+
+/**
+ * Text drawn on a PDF label, decoded from the UCS-2 hex strings
+ */
+function pdfText(pdf: string): string[] {
+  return Array.from(pdf.matchAll(/<([0-9a-f]+)> Tj/g), (match) =>
+    String.fromCharCode(...(match[1].match(/.{4}/g) || []).map((code) => parseInt(code, 16)))
+  );
+}
+
+describe('renderWaybillLabel', () => {
+  it('draws the tracking number as Code 128 set B with its checksum', () => {
+    const pdf = renderWaybillLabel(label, 'pdf').content.toString('latin1');
+
+    // Start B, "Z" (58), "T" (52), "1" (17), checksum (104 + 58 + 2 * 52 + 3 * 17) % 103 = 8, stop
+    assert.equal(pdfBarcodeModules(pdf), ['211214', '312311', '213311', '123221', '132212', '2331112'].join(''));
+  });
+
+  it('renders a PDF page with the waybill fields and a valid cross-reference table', () => {
+    const result = renderWaybillLabel(label, 'pdf');
+    const pdf = result.content.toString('latin1');
+
+    assert.equal(result.contentType, 'application/pdf');
+    assert.equal(result.trackingNumber, 'ZT1');
+    assert.match(pdf, /^%PDF-1\.4\n/);
+    assert.match(pdf, /%%EOF\n$/);
+
+    const xref = pdf.slice(Number(pdf.match(/startxref\n(\d+)/)![1]));
+    const offsets = Array.from(xref.matchAll(/^(\d{10}) 00000 n $/gm), (match) => Number(match[1]));
+    assert.equal(offsets.length, 7);
+    offsets.forEach((offset, index) => assert.equal(pdf.startsWith(`${index + 1} 0 obj`, offset), true));
+
+    const text = pdfText(pdf);
+    assert.equal(text.includes('广东省 广州市'), true, 'sorting code');
+    assert.equal(text.includes('李四 139****5678'), true, 'masked receiver phone');
+    assert.equal(text.includes('广东省广州市天河路2号'), true, 'receiver address with its regions');
+    assert.equal(text.includes('上海市浦东新区世纪大道1号'), true, 'sender address without a repeated province');
+    assert.equal(text.includes('件数: 3    重量: 1.85kg'), true);
+  });
+
+  it('renders ZPL with UTF-8 field data and a Code 128 barcode', () => {
+    const result = renderWaybillLabel({ ...label, sortingCode: '粤A-020' }, 'zpl');
+    const zpl = result.content.toString('utf8');
+
+    assert.equal(result.contentType, 'application/x-zpl');
+    assert.match(zpl, /^\^XA\n\^CI28\n\^PW800\n\^LL1200\n/);
+    assert.match(zpl, /\^BCN,120,N,N,N\^FDZT1\^FS/);
+    assert.match(zpl, /\^FD粤A-020\^FS/);
+    assert.match(zpl, /\^FD托寄物: 运动鞋、T恤 \^FS/, 'ZPL command prefixes are removed from field data');
+    assert.match(zpl, /\^XZ$/);
+  });
+
+  it('rejects tracking numbers that Code 128 set B cannot encode', () => {
+    assert.throws(
+      () => renderWaybillLabel({ ...label, trackingNumber: '中通1' }, 'pdf'),
+      /Character "中" cannot be encoded in a Code 128 barcode/
+    );
+  });
+
+  it('derives the sorting code from the destination province and city', () => {
+    assert.equal(defaultSortingCode(label.to), '广东省 广州市');
+    assert.equal(defaultSortingCode({ ...label.to, city: undefined }), '广东省');
+  });
+});
+
+describe('getLabel', () => {
+  const order: ShippingOrder = {
+    id: 'order-1',
+    provider: 'zto',
+    status: OrderStatus.CREATED,
+    from: label.from,
+    to: label.to,
+    items: label.items,
+    createdAt: label.createdAt,
+    updatedAt: label.createdAt,
+  };
+
+  it('renders booked orders and rejects orders without a tracking number or unknown formats', async () => {
+    const zto = new ZTOProvider();
+    await zto.initialize({ id: 'zto', apiKey: 'key' });
+
+    const result = await zto.getLabel({ order: { ...order, orderNumber: 'ZT1' }, format: 'zpl' });
+    assert.equal(result.orderId, 'order-1');
+    assert.match(result.content.toString('utf8'), /\^FDZT1\^FS/);
+
+    await assert.rejects(zto.getLabel({ order, format: 'pdf' }), /Order order-1 has no tracking number yet/);
+    await assert.rejects(
+      zto.getLabel({ order: { ...order, orderNumber: 'ZT1' }, format: 'png' as any }),
+      /Unsupported label format: png/
+    );
+  });
+});
@@ -0,0 +1,356 @@
+import {
+  Address,
+  ShippingItem,
+  LabelFormat,
+  ShippingLabel,
+} from '@oneship/core';
+
+/**
+ * Data printed on an electronic waybill (电子面单)
+ */
+export interface WaybillLabelData {
+  orderId: string;
+  providerName: string;
+  productName?: string; // e.g. 标准快递
+  trackingNumber: string;
+  sortingCode?: string; // Destination sorting code (大头笔)
+  from: Address;
+  to: Address;
+  items: ShippingItem[];
+  createdAt: Date;
+}
+
+/**
+ * Content type for each label format
+ */
+export const LABEL_CONTENT_TYPES: Record<LabelFormat, string> = {
+  pdf: 'application/pdf',
+  zpl: 'application/x-zpl',
+};
+
+// Standard 100x150mm thermal waybill
+const PAGE_WIDTH_MM = 100;
+const PAGE_HEIGHT_MM = 150;
+const MARGIN_MM = 4;
+const PT_PER_MM = 72 / 25.4;
+const ZPL_DOTS_PER_MM = 8; // 203 dpi
+const ZPL_FONT = 'E:SIMSUN.TTF';
+
+/**
+ * Render the standard electronic waybill layout in the requested format
+ */
+export function renderWaybillLabel(data: WaybillLabelData, format: LabelFormat): ShippingLabel {
+  return {
+    orderId: data.orderId,
+    trackingNumber: data.trackingNumber,
+    format,
+    contentType: LABEL_CONTENT_TYPES[format],
+    content: format === 'zpl' ? renderZpl(data) : renderPdf(data),
+  };
+}
+
+/**
+ * Default sorting code from destination province and city
+ */
+export function defaultSortingCode(to: Address): string {
+  return [to.province, to.city].filter(Boolean).join(' ');
+}
+
+/**
+ * Mask the middle digits of a phone number, as required for privacy waybills (隐私面单)
+ */
+function maskPhone(phone: string): string {
+  return phone.length >= 7 ? `${phone.slice(0, 3)}****${phone.slice(-4)}` : phone;
+}
+
+/**
+ * Full address line, skipping province/city already contained in the street address
+ */
+function formatAddress(address: Address): string {
+  const regions = [address.province, address.city].filter(
+    (part, index, parts): part is string =>
+      !!part && parts.indexOf(part) === index && !address.address.includes(part)
+  );
+  return [...regions, address.address].join('');
+}
+
+/**
+ * Label rows shared by the PDF and ZPL renderers
+ */
+function labelFields(data: WaybillLabelData) {
+  const quantity = data.items.reduce((sum, item) => sum + item.quantity, 0);
+  const weight = data.items.reduce((sum, item) => sum + item.weight * item.quantity, 0);
+  const contents = data.items.map((item) => item.name).join('、');
+
+  return {
+    header: data.providerName,
+    product: data.productName || '标准快递',
+    sortingCode: data.sortingCode || defaultSortingCode(data.to),
+    receiver: `${data.to.name} ${maskPhone(data.to.phone)}`,
+    receiverAddress: formatAddress(data.to),
+    sender: `${data.from.name} ${maskPhone(data.from.phone)}`,
+    senderAddress: formatAddress(data.from),
+    contents: `托寄物: ${contents.length > 24 ? `${contents.slice(0, 24)}…` : contents}`,
+    summary: `件数: ${quantity}    重量: ${Math.round(weight * 100) / 100}kg`,
+    signature: '签收人:              时间:',
+    printedAt: `打印时间: ${data.createdAt.toISOString().slice(0, 10)}`,
+  };
+}
+
+/**
+ * Text width in em, CJK glyphs are full width and ASCII glyphs half width
+ */
+function textWidthEm(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += char.charCodeAt(0) < 0x80 ? 0.5 : 1;
+  }
+  return width;
+}
+
+/**
+ * Split text into lines no wider than maxEm
+ */
+function wrapText(text: string, maxEm: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const char of text) {
+    if (textWidthEm(line + char) > maxEm) {
+      lines.push(line);
+      line = '';
+    }
+    line += char;
+  }
+  if (line) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Code 128 bar/space widths indexed by symbol value, 103-105 are start codes and 106 is stop
+ */
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+/**
+ * Encode text as Code 128 set B, returning alternating bar/space widths in modules
+ */
+function encodeCode128(text: string): number[] {
+  const values = Array.from(text).map((char) => {
+    const value = char.charCodeAt(0) - 32;
+    if (value < 0 || value > 95) {
+      throw new Error(`Character "${char}" cannot be encoded in a Code 128 barcode`);
+    }
+    return value;
+  });
+  const checksum = values.reduce((sum, value, index) => sum + value * (index + 1), CODE128_START_B) % 103;
+
+  return [CODE128_START_B, ...values, checksum, CODE128_STOP].flatMap((symbol) =>
+    Array.from(CODE128_PATTERNS[symbol], Number)
+  );
+}
+
+/**
+ * Minimal PDF page writer, coordinates are in mm from the top-left corner
+ */
+class PdfPage {
+  private operations: string[] = [];
+
+  text(
+    xMm: number,
+    yMm: number,
+    sizePt: number,
+    text: string,
+    align: 'left' | 'center' | 'right' = 'left'
+  ): void {
+    const widthMm = (textWidthEm(text) * sizePt) / PT_PER_MM;
+    const offsetMm = align === 'center' ? widthMm / 2 : align === 'right' ? widthMm : 0;
+    const hex = Array.from(text)
+      .map((char) => char.charCodeAt(0).toString(16).padStart(4, '0'))
+      .join('');
+    this.operations.push(
+      `BT /F1 ${sizePt} Tf ${this.x(xMm - offsetMm)} ${this.y(yMm)} Td <${hex}> Tj ET`
+    );
+  }
+
+  line(x1Mm: number, y1Mm: number, x2Mm: number, y2Mm: number, widthPt = 0.8): void {
+    this.operations.push(
+      `${widthPt} w ${this.x(x1Mm)} ${this.y(y1Mm)} m ${this.x(x2Mm)} ${this.y(y2Mm)} l S`
+    );
+  }
+
+  bar(xMm: number, yMm: number, widthMm: number, heightMm: number): void {
+    this.operations.push(
+      `${this.x(xMm)} ${this.y(yMm + heightMm)} ${this.x(widthMm)} ${this.x(heightMm)} re f`
+    );
+  }
+
+  toBuffer(): Buffer {
+    const content = this.operations.join('\n');
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.x(PAGE_WIDTH_MM)} ${this.x(PAGE_HEIGHT_MM)}] ` +
+        '/Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>',
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+      // STSong-Light is a viewer-supplied Adobe CJK font, so no font file needs embedding
+      '<< /Type /Font /Subtype /Type0 /BaseFont /STSong-Light /Encoding /UniGB-UCS2-H /DescendantFonts [6 0 R] >>',
+      '<< /Type /Font /Subtype /CIDFontType0 /BaseFont /STSong-Light ' +
+        '/CIDSystemInfo << /Registry (Adobe) /Ordering (GB1) /Supplement 2 >> ' +
+        '/FontDescriptor 7 0 R /DW 1000 /W [1 95 500] >>',
+      '<< /Type /FontDescriptor /FontName /STSong-Light /Flags 6 /FontBBox [-25 -254 1000 880] ' +
+        '/ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>',
+    ];
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(pdf.length);
+      pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(pdf, 'latin1');
+  }
+
+  private x(mm: number): string {
+    return (mm * PT_PER_MM).toFixed(2);
+  }
+
+  private y(mm: number): string {
+    return ((PAGE_HEIGHT_MM - mm) * PT_PER_MM).toFixed(2);
+  }
+}
+
+/**
+ * Render the waybill as a single-page PDF
+ */
+function renderPdf(data: WaybillLabelData): Buffer {
+  const fields = labelFields(data);
+  const page = new PdfPage();
+  const right = PAGE_WIDTH_MM - MARGIN_MM;
+  const addressWidthPt = (PAGE_WIDTH_MM - 16 - MARGIN_MM) * PT_PER_MM;
+
+  // Courier and product
+  page.text(MARGIN_MM, 10, 14, fields.header);
+  page.text(right, 10, 12, fields.product, 'right');
+  page.line(0, 14, PAGE_WIDTH_MM, 14);
+
+  // Sorting code
+  page.text(PAGE_WIDTH_MM / 2, 24, 22, fields.sortingCode, 'center');
+  page.line(0, 28, PAGE_WIDTH_MM, 28);
+
+  // Tracking number barcode
+  const modules = encodeCode128(data.trackingNumber);
+  const totalModules = modules.reduce((sum, width) => sum + width, 0);
+  const moduleMm = Math.min(0.4, (PAGE_WIDTH_MM - 2 * MARGIN_MM) / totalModules);
+  let x = (PAGE_WIDTH_MM - totalModules * moduleMm) / 2;
+  modules.forEach((width, index) => {
+    if (index % 2 === 0) {
+      page.bar(x, 31, width * moduleMm, 15);
+    }
+    x += width * moduleMm;
+  });
+  page.text(PAGE_WIDTH_MM / 2, 51, 11, data.trackingNumber, 'center');
+  page.line(0, 55, PAGE_WIDTH_MM, 55);
+
+  // Receiver
+  page.text(MARGIN_MM, 64, 16, '收');
+  page.text(16, 62, 11, fields.receiver);
+  wrapText(fields.receiverAddress, addressWidthPt / 9)
+    .slice(0, 3)
+    .forEach((line, index) => page.text(16, 68 + index * 5, 9, line));
+  page.line(0, 85, PAGE_WIDTH_MM, 85);
+
+  // Sender
+  page.text(MARGIN_MM, 93, 12, '寄');
+  page.text(16, 91, 8, fields.sender);
+  wrapText(fields.senderAddress, addressWidthPt / 8)
+    .slice(0, 2)
+    .forEach((line, index) => page.text(16, 96 + index * 4, 8, line));
+  page.line(0, 105, PAGE_WIDTH_MM, 105);
+
+  // Contents
+  page.text(MARGIN_MM, 112, 9, fields.contents);
+  page.text(MARGIN_MM, 118, 9, fields.summary);
+  page.line(0, 123, PAGE_WIDTH_MM, 123);
+
+  // Signature
+  page.text(MARGIN_MM, 132, 10, fields.signature);
+  page.text(MARGIN_MM, 144, 7, `运单号: ${data.trackingNumber}`);
+  page.text(right, 144, 7, fields.printedAt, 'right');
+
+  return page.toBuffer();
+}
+
+/**
+ * Render the waybill as ZPL for 203 dpi thermal printers
+ */
+function renderZpl(data: WaybillLabelData): Buffer {
+  const fields = labelFields(data);
+  const dots = (mm: number) => Math.round(mm * ZPL_DOTS_PER_MM);
+  // ^ and ~ are ZPL command prefixes and cannot appear in field data
+  const escape = (text: string) => text.replace(/[\^~]/g, ' ');
+  const text = (
+    xMm: number,
+    yMm: number,
+    heightMm: number,
+    value: string,
+    block?: { widthMm: number; lines: number; align?: 'L' | 'C' | 'R' }
+  ) =>
+    `^FO${dots(xMm)},${dots(yMm)}^A@N,${dots(heightMm)},${dots(heightMm)},${ZPL_FONT}` +
+    (block ? `^FB${dots(block.widthMm)},${block.lines},4,${block.align || 'L'}` : '') +
+    `^FD${escape(value)}^FS`;
+  const line = (yMm: number) => `^FO0,${dots(yMm)}^GB${dots(PAGE_WIDTH_MM)},2,2^FS`;
+  const contentWidth = PAGE_WIDTH_MM - 2 * MARGIN_MM;
+
+  const commands = [
+    '^XA',
+    '^CI28', // UTF-8 field data
+    `^PW${dots(PAGE_WIDTH_MM)}`,
+    `^LL${dots(PAGE_HEIGHT_MM)}`,
+    text(MARGIN_MM, 4, 5, fields.header),
+    text(MARGIN_MM, 5, 4, fields.product, { widthMm: contentWidth, lines: 1, align: 'R' }),
+    line(14),
+    text(MARGIN_MM, 17, 8, fields.sortingCode, { widthMm: contentWidth, lines: 1, align: 'C' }),
+    line(28),
+    `^FO${dots(MARGIN_MM * 2)},${dots(31)}^BY2^BCN,${dots(15)},N,N,N^FD${escape(data.trackingNumber)}^FS`,
+    text(MARGIN_MM, 48, 4, data.trackingNumber, { widthMm: contentWidth, lines: 1, align: 'C' }),
+    line(55),
+    text(MARGIN_MM, 58, 6, '收'),
+    text(16, 58, 4, fields.receiver),
+    text(16, 64, 3.2, fields.receiverAddress, { widthMm: PAGE_WIDTH_MM - 16 - MARGIN_MM, lines: 3 }),
+    line(85),
+    text(MARGIN_MM, 88, 4.5, '寄'),
+    text(16, 88, 3, fields.sender),
+    text(16, 93, 3, fields.senderAddress, { widthMm: PAGE_WIDTH_MM - 16 - MARGIN_MM, lines: 2 }),
+    line(105),
+    text(MARGIN_MM, 108, 3.2, fields.contents),
+    text(MARGIN_MM, 114, 3.2, fields.summary),
+    line(123),
+    text(MARGIN_MM, 128, 3.5, fields.signature),
+    text(MARGIN_MM, 141, 2.5, `运单号: ${data.trackingNumber}`),
+    text(MARGIN_MM, 141, 2.5, fields.printedAt, { widthMm: contentWidth, lines: 1, align: 'R' }),
+    '^XZ',
+  ];
+
+  return Buffer.from(commands.join('\n'), 'utf8');
+}
@@ -1,10 +1,21 @@
-import { BaseProvider } from './base-provider';
+import { BaseProvider, RateTable } from './base-provider';
+import { renderWaybillLabel } from './waybill-label';
+import { YTO_STATUS_MAPPING } from './status-mapping';
 import {
   ProviderId,
   CreateOrderRequest,
   CreateOrderResponse,
   QueryOrderRequest,
   QueryOrderResponse,
+  RateQuoteRequest,
+  RateQuote,
+  GetLabelRequest,
+  ShippingLabel,
+  SchedulePickupRequest,
+  SchedulePickupResponse,
+  PickupStatus,
+  CarrierCallbackRequest,
+  CarrierCallbackResult,
   ShippingOrder,
   OrderStatus,
   FreeShippingNotification,
@@ -18,12 +29,28 @@ function uuidv4(): string {
   });
 }
 
+/**
+ * YTO track push
+ */
+interface YTOTrackPush {
+  logisticsNo: string;
+  infoContent: string;
+  acceptTime: string;
+  city?: string;
+  remark?: string;
+}
+
 /**
  * YTO (圆通) provider implementation
  */
 export class YTOProvider extends BaseProvider {
   readonly id: ProviderId = 'yto';
   readonly name = 'YTO Express (圆通)';
+  protected readonly statusMapping = YTO_STATUS_MAPPING;
+  private readonly rateTable: RateTable = {
+    sameProvince: { firstWeightPrice: 8, continuedWeightPrice: 1.5, estimatedDays: 2 },
+    crossProvince: { firstWeightPrice: 10, continuedWeightPrice: 3, estimatedDays: 3 },
+  };
 
   private apiClient: any;
 
@@ -53,28 +80,27 @@ export class YTOProvider extends BaseProvider {
   }
 
   protected async doQueryOrder(request: QueryOrderRequest): Promise<QueryOrderResponse> {
+    // Mock implementation - the courier reports a single route with code GOT (已揽收)
+    // an hour after the order was created, the mock waybill number carries the creation time
+    const createdAt = this.mockCreatedAt(request.orderId);
+    const scannedAt = new Date(createdAt.getTime() + 60 * 60 * 1000);
+    const event = this.createTrackingEvent('GOT', scannedAt, 'Package has been picked up', 'Beijing')!;
     const order: ShippingOrder = {
       id: request.orderId,
       provider: this.id,
-      orderNumber: `YTO${Date.now()}`,
-      status: OrderStatus.PICKED_UP,
+      orderNumber: request.orderId,
+      status: event.status,
+      subStatus: event.subStatus,
       from: { name: '', phone: '', address: '' },
       to: { name: '', phone: '', address: '' },
       items: [],
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      createdAt,
+      updatedAt: scannedAt,
     };
 
     return {
       order,
-      trackingEvents: [
-        {
-          timestamp: new Date(),
-          status: OrderStatus.PICKED_UP,
-          location: 'Beijing',
-          description: 'Package has been picked up',
-        },
-      ],
+      trackingEvents: [event],
     };
   }
 
@@ -82,6 +108,70 @@ export class YTOProvider extends BaseProvider {
     // Cancel order via YTO API
   }
 
+  protected async doQuoteRate(request: RateQuoteRequest): Promise<RateQuote> {
+    // Mock implementation - first-weight plus continued-weight pricing
+    return this.quoteFromRateTable(request, this.rateTable);
+  }
+
+  protected async doGetLabel(request: GetLabelRequest): Promise<ShippingLabel> {
+    // Mock implementation - render the standard waybill layout locally
+    const { order } = request;
+    return renderWaybillLabel(
+      {
+        orderId: order.id,
+        providerName: this.name,
+        productName: '标准快递',
+        trackingNumber: order.orderNumber!,
+        from: order.from,
+        to: order.to,
+        items: order.items,
+        createdAt: order.createdAt,
+      },
+      request.format
+    );
+  }
+
+  protected async doSchedulePickup(request: SchedulePickupRequest): Promise<SchedulePickupResponse> {
+    return {
+      pickup: {
+        id: uuidv4(),
+        provider: this.id,
+        pickupNumber: `YTOP${Date.now()}`,
+        status: PickupStatus.SCHEDULED,
+        timeWindow: request.timeWindow,
+        address: request.address,
+        parcelCount: request.parcelCount,
+        orderIds: request.orderIds,
+        metadata: request.metadata,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    };
+  }
+
+  protected async doCancelPickup(pickupId: string): Promise<void> {
+    // Cancel pickup via YTO API
+  }
+
+  protected async doHandleCallback(request: CarrierCallbackRequest): Promise<CarrierCallbackResult> {
+    // YTO pushes one track at a time, signed with base64(md5(body + secret))
+    this.verifyCallbackDigest(request, 'x-yto-sign');
+    const push = this.parseCallbackBody<YTOTrackPush>(request);
+
+    const event = this.createTrackingEvent(
+      push.infoContent,
+      this.parseCourierTime(push.acceptTime),
+      push.remark || '',
+      push.city
+    );
+    const entries = event ? [{ orderNumber: push.logisticsNo, event }] : [];
+
+    return {
+      updates: this.groupTrackingEvents(entries),
+      acknowledgement: { success: true, code: '0', message: '成功' },
+    };
+  }
+
   protected async doCheckFreeShipping(orderId: string): Promise<FreeShippingNotification | null> {
     // Check YTO free shipping promotions
     if (Math.random() > 0.8) {
@@ -1,10 +1,21 @@
-import { BaseProvider } from './base-provider';
+import { BaseProvider, RateTable } from './base-provider';
+import { renderWaybillLabel } from './waybill-label';
+import { ZTO_STATUS_MAPPING } from './status-mapping';
 import {
   ProviderId,
   CreateOrderRequest,
   CreateOrderResponse,
   QueryOrderRequest,
   QueryOrderResponse,
+  RateQuoteRequest,
+  RateQuote,
+  GetLabelRequest,
+  ShippingLabel,
+  SchedulePickupRequest,
+  SchedulePickupResponse,
+  PickupStatus,
+  CarrierCallbackRequest,
+  CarrierCallbackResult,
   ShippingOrder,
   OrderStatus,
 } from '@oneship/core';
@@ -17,12 +28,28 @@ function uuidv4(): string {
   });
 }
 
+/**
+ * ZTO trace push entry
+ */
+interface ZTOTracePush {
+  billCode: string;
+  scanType: string;
+  scanDate: string;
+  scanSite?: string;
+  desc?: string;
+}
+
 /**
  * ZTO (中通) provider implementation
  */
 export class ZTOProvider extends BaseProvider {
   readonly id: ProviderId = 'zto';
   readonly name = 'ZTO Express (中通)';
+  protected readonly statusMapping = ZTO_STATUS_MAPPING;
+  private readonly rateTable: RateTable = {
+    sameProvince: { firstWeightPrice: 7, continuedWeightPrice: 1.2, estimatedDays: 2 },
+    crossProvince: { firstWeightPrice: 9, continuedWeightPrice: 2.5, estimatedDays: 3 },
+  };
 
   private apiClient: any;
 
@@ -52,33 +79,98 @@ export class ZTOProvider extends BaseProvider {
   }
 
   protected async doQueryOrder(request: QueryOrderRequest): Promise<QueryOrderResponse> {
+    // Mock implementation - the courier reports a single route with code 派件
+    // an hour after the order was created, the mock waybill number carries the creation time
+    const createdAt = this.mockCreatedAt(request.orderId);
+    const scannedAt = new Date(createdAt.getTime() + 60 * 60 * 1000);
+    const event = this.createTrackingEvent('派件', scannedAt, 'Package is out for delivery', 'Guangzhou')!;
     const order: ShippingOrder = {
       id: request.orderId,
       provider: this.id,
-      orderNumber: `ZTO${Date.now()}`,
-      status: OrderStatus.OUT_FOR_DELIVERY,
+      orderNumber: request.orderId,
+      status: event.status,
+      subStatus: event.subStatus,
       from: { name: '', phone: '', address: '' },
       to: { name: '', phone: '', address: '' },
       items: [],
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      createdAt,
+      updatedAt: scannedAt,
     };
 
     return {
       order,
-      trackingEvents: [
-        {
-          timestamp: new Date(),
-          status: OrderStatus.OUT_FOR_DELIVERY,
-          location: 'Guangzhou',
-          description: 'Package is out for delivery',
-        },
-      ],
+      trackingEvents: [event],
     };
   }
 
   protected async doCancelOrder(orderId: string): Promise<void> {
     // Cancel order via ZTO API
   }
+
+  protected async doQuoteRate(request: RateQuoteRequest): Promise<RateQuote> {
+    // Mock implementation - first-weight plus continued-weight pricing
+    return this.quoteFromRateTable(request, this.rateTable);
+  }
+
+  protected async doGetLabel(request: GetLabelRequest): Promise<ShippingLabel> {
+    // Mock implementation - render the standard waybill layout locally
+    const { order } = request;
+    return renderWaybillLabel(
+      {
+        orderId: order.id,
+        providerName: this.name,
+        productName: '标准快递',
+        trackingNumber: order.orderNumber!,
+        from: order.from,
+        to: order.to,
+        items: order.items,
+        createdAt: order.createdAt,
+      },
+      request.format
+    );
+  }
+
+  protected async doSchedulePickup(request: SchedulePickupRequest): Promise<SchedulePickupResponse> {
+    return {
+      pickup: {
+        id: uuidv4(),
+        provider: this.id,
+        pickupNumber: `ZTOP${Date.now()}`,
+        status: PickupStatus.SCHEDULED,
+        timeWindow: request.timeWindow,
+        address: request.address,
+        parcelCount: request.parcelCount,
+        orderIds: request.orderIds,
+        metadata: request.metadata,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    };
+  }
+
+  protected async doCancelPickup(pickupId: string): Promise<void> {
+    // Cancel pickup via ZTO API
+  }
+
+  protected async doHandleCallback(request: CarrierCallbackRequest): Promise<CarrierCallbackResult> {
+    // ZTO signs trace pushes with base64(md5(body + secret)) in the data digest header
+    this.verifyCallbackDigest(request, 'x-datadigest');
+    const payload = this.parseCallbackBody<{ data?: ZTOTracePush[] }>(request);
+
+    const entries = (payload.data || []).flatMap((trace) => {
+      const event = this.createTrackingEvent(
+        trace.scanType,
+        this.parseCourierTime(trace.scanDate),
+        trace.desc || '',
+        trace.scanSite
+      );
+      return event ? [{ orderNumber: trace.billCode, event }] : [];
+    });
+
+    return {
+      updates: this.groupTrackingEvents(entries),
+      acknowledgement: { status: true, message: '成功' },
+    };
+  }
 }
 
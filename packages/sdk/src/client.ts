@@ -2,15 +2,34 @@ import {
   CreateOrderRequest,
   ShippingOrder,
   QueryOrderRequest,
+  RoutingRules,
+  LabelFormat,
+  SchedulePickupRequest,
+  Pickup,
   FreeShippingNotification,
   WebhookEventType,
+  WorkflowDefinition,
+  WorkflowReference,
+  WorkflowExecution,
+  WorkflowExecutionFilter,
+  WorkflowGraphFormat,
 } from '@oneship/core';
 import {
   CreateOrderApiRequest,
+  BatchCreateOrderApiRequest,
+  BatchCreateOrderApiResponse,
+  RateQuoteApiRequest,
+  RateQuoteApiResponse,
   WebhookSubscriptionRequest,
   WebhookSubscription,
+  WebhookSubscriptionUpdateRequest,
+  WebhookTestResult,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
   ProviderConfigRequest,
+  OrderWorkflowRules,
   ApiResponse,
+  TENANT_HEADER,
 } from '@oneship/api';
 import { OneShipConfig } from './types';
 
@@ -21,21 +40,31 @@ export class OneShip {
   private apiKey: string;
   private apiUrl: string;
   private timeout: number;
+  private tenantId?: string;
 
   public readonly orders: OrdersClient;
+  public readonly rates: RatesClient;
+  public readonly routing: RoutingClient;
+  public readonly pickups: PickupsClient;
   public readonly webhooks: WebhooksClient;
   public readonly providers: ProvidersClient;
   public readonly freeShipping: FreeShippingClient;
+  public readonly workflows: WorkflowsClient;
 
   constructor(config: OneShipConfig) {
     this.apiKey = config.apiKey;
     this.apiUrl = config.apiUrl || 'http://localhost:3000';
     this.timeout = config.timeout || 30000;
+    this.tenantId = config.tenantId;
 
     this.orders = new OrdersClient(this);
+    this.rates = new RatesClient(this);
+    this.routing = new RoutingClient(this);
+    this.pickups = new PickupsClient(this);
     this.webhooks = new WebhooksClient(this);
     this.providers = new ProvidersClient(this);
     this.freeShipping = new FreeShippingClient(this);
+    this.workflows = new WorkflowsClient(this);
   }
 
   /**
@@ -46,11 +75,37 @@ export class OneShip {
     path: string,
     body?: any
   ): Promise<ApiResponse<T>> {
+    return await this.send(method, path, body, async (response) => {
+      return (await response.json()) as ApiResponse<T>;
+    });
+  }
+
+  /**
+   * Make API request returning a binary document
+   */
+  async requestBinary(method: string, path: string): Promise<Buffer> {
+    return await this.send(method, path, undefined, async (response) => {
+      return Buffer.from(await response.arrayBuffer());
+    });
+  }
+
+  /**
+   * Send HTTP request with authentication and timeout
+   */
+  private async send<R>(
+    method: string,
+    path: string,
+    body: any,
+    parse: (response: Response) => Promise<R>
+  ): Promise<R> {
     const url = `${this.apiUrl}${path}`;
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       'X-API-Key': this.apiKey,
     };
+    if (this.tenantId) {
+      headers[TENANT_HEADER] = this.tenantId;
+    }
 
     const options: RequestInit = {
       method,
@@ -73,13 +128,13 @@ export class OneShip {
       clearTimeout(timeoutId);
 
       if (!response.ok) {
-        const error = await response.json().catch(() => ({
+        const error = (await response.json().catch(() => ({
           error: `HTTP ${response.status}: ${response.statusText}`,
-        }));
+        }))) as { error?: string };
         throw new Error(error.error || `HTTP ${response.status}`);
       }
 
-      return await response.json();
+      return await parse(response);
     } catch (error) {
       clearTimeout(timeoutId);
       if (error instanceof Error && error.name === 'AbortError') {
@@ -101,11 +156,12 @@ export class OrdersClient {
    */
   async create(
     request: CreateOrderRequest,
-    options?: { webhookUrl?: string }
+    options?: { webhookUrl?: string; workflow?: WorkflowReference }
   ): Promise<ShippingOrder> {
     const apiRequest: CreateOrderApiRequest = {
       ...request,
       webhookUrl: options?.webhookUrl,
+      workflow: options?.workflow,
     };
 
     const response = await this.client.request<ShippingOrder>(
@@ -121,6 +177,31 @@ export class OrdersClient {
     return response.data;
   }
 
+  /**
+   * Create many orders in one request, each order succeeds or fails independently
+   */
+  async createBatch(
+    requests: CreateOrderApiRequest[],
+    options?: { concurrency?: number }
+  ): Promise<BatchCreateOrderApiResponse> {
+    const apiRequest: BatchCreateOrderApiRequest = {
+      orders: requests,
+      concurrency: options?.concurrency,
+    };
+
+    const response = await this.client.request<BatchCreateOrderApiResponse>(
+      'POST',
+      '/v1/orders/batch',
+      apiRequest
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to create orders');
+    }
+
+    return response.data;
+  }
+
   /**
    * Get order by ID
    */
@@ -153,6 +234,16 @@ export class OrdersClient {
     return response.data;
   }
 
+  /**
+   * Get the electronic waybill label as a PDF or ZPL document
+   */
+  async getLabel(orderId: string, format: LabelFormat = 'pdf'): Promise<Buffer> {
+    return await this.client.requestBinary(
+      'GET',
+      `/v1/orders/${orderId}/label?format=${format}`
+    );
+  }
+
   /**
    * Cancel order
    */
@@ -168,6 +259,173 @@ export class OrdersClient {
   }
 }
 
+/**
+ * Rates client
+ */
+export class RatesClient {
+  constructor(private client: OneShip) {}
+
+  /**
+   * Quote rates from every initialized provider
+   */
+  async quote(request: RateQuoteApiRequest): Promise<RateQuoteApiResponse> {
+    const response = await this.client.request<RateQuoteApiResponse>(
+      'POST',
+      '/v1/rates',
+      request
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to quote rates');
+    }
+
+    return response.data;
+  }
+}
+
+/**
+ * Routing client
+ */
+export class RoutingClient {
+  constructor(private client: OneShip) {}
+
+  /**
+   * Get courier routing rules
+   */
+  async getRules(): Promise<RoutingRules> {
+    const response = await this.client.request<RoutingRules>(
+      'GET',
+      '/v1/routing/rules'
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to get routing rules');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Replace courier routing rules
+   */
+  async updateRules(rules: RoutingRules): Promise<RoutingRules> {
+    const response = await this.client.request<RoutingRules>(
+      'PUT',
+      '/v1/routing/rules',
+      rules
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update routing rules');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Get the rules selecting which workflow creates orders
+   */
+  async getWorkflowRules(): Promise<OrderWorkflowRules> {
+    const response = await this.client.request<OrderWorkflowRules>(
+      'GET',
+      '/v1/routing/workflows'
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to get order workflow rules');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Replace the rules selecting which workflow creates orders
+   */
+  async updateWorkflowRules(rules: OrderWorkflowRules): Promise<OrderWorkflowRules> {
+    const response = await this.client.request<OrderWorkflowRules>(
+      'PUT',
+      '/v1/routing/workflows',
+      rules
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update order workflow rules');
+    }
+
+    return response.data;
+  }
+}
+
+/**
+ * Pickups client
+ */
+export class PickupsClient {
+  constructor(private client: OneShip) {}
+
+  /**
+   * Book a courier pickup
+   */
+  async schedule(request: SchedulePickupRequest): Promise<Pickup> {
+    const response = await this.client.request<Pickup>(
+      'POST',
+      '/v1/pickups',
+      request
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to schedule pickup');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Get pickup by ID
+   */
+  async get(pickupId: string): Promise<Pickup> {
+    const response = await this.client.request<Pickup>(
+      'GET',
+      `/v1/pickups/${pickupId}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Pickup not found');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * List pickups
+   */
+  async list(): Promise<Pickup[]> {
+    const response = await this.client.request<Pickup[]>(
+      'GET',
+      '/v1/pickups'
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to list pickups');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Cancel pickup
+   */
+  async cancel(pickupId: string): Promise<void> {
+    const response = await this.client.request<void>(
+      'POST',
+      `/v1/pickups/${pickupId}/cancel`
+    );
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to cancel pickup');
+    }
+  }
+}
+
 /**
  * Webhooks client
  */
@@ -223,6 +481,42 @@ export class WebhooksClient {
     return response.data;
   }
 
+  /**
+   * Update webhook subscription, pass `active: false` to pause it or `secret: null` to remove the secret
+   */
+  async update(
+    webhookId: string,
+    request: WebhookSubscriptionUpdateRequest
+  ): Promise<WebhookSubscription> {
+    const response = await this.client.request<WebhookSubscription>(
+      'PATCH',
+      `/v1/webhooks/${webhookId}`,
+      request
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update webhook');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Send a test event to the webhook endpoint and report how it responded
+   */
+  async test(webhookId: string): Promise<WebhookTestResult> {
+    const response = await this.client.request<WebhookTestResult>(
+      'POST',
+      `/v1/webhooks/${webhookId}/test`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to test webhook');
+    }
+
+    return response.data;
+  }
+
   /**
    * Delete webhook subscription
    */
@@ -236,6 +530,42 @@ export class WebhooksClient {
       throw new Error(response.error || 'Failed to delete webhook');
     }
   }
+
+  /**
+   * List deliveries for a webhook subscription, newest first
+   */
+  async listDeliveries(
+    webhookId: string,
+    options?: { status?: WebhookDeliveryStatus }
+  ): Promise<WebhookDelivery[]> {
+    const query = options?.status ? `?status=${options.status}` : '';
+    const response = await this.client.request<WebhookDelivery[]>(
+      'GET',
+      `/v1/webhooks/${webhookId}/deliveries${query}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to list webhook deliveries');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Manually redeliver a failed webhook delivery
+   */
+  async redeliver(webhookId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const response = await this.client.request<WebhookDelivery>(
+      'POST',
+      `/v1/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to redeliver webhook');
+    }
+
+    return response.data;
+  }
 }
 
 /**
@@ -315,3 +645,206 @@ export class FreeShippingClient {
   }
 }
 
+/**
+ * Workflows client
+ */
+export class WorkflowsClient {
+  constructor(private client: OneShip) {}
+
+  /**
+   * Upload a new workflow, stored as version 1
+   */
+  async create(workflow: WorkflowDefinition): Promise<WorkflowDefinition> {
+    const response = await this.client.request<WorkflowDefinition>(
+      'POST',
+      '/v1/workflows',
+      workflow
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to create workflow');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * List the latest version of every workflow
+   */
+  async list(): Promise<WorkflowDefinition[]> {
+    const response = await this.client.request<WorkflowDefinition[]>(
+      'GET',
+      '/v1/workflows'
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to list workflows');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Get a workflow, the latest version unless a version is given
+   */
+  async get(workflowId: string, options?: { version?: number }): Promise<WorkflowDefinition> {
+    const query = options?.version !== undefined ? `?version=${options.version}` : '';
+    const response = await this.client.request<WorkflowDefinition>(
+      'GET',
+      `/v1/workflows/${workflowId}${query}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Workflow not found');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Publish a new version of a workflow, earlier versions stay available
+   */
+  async update(workflowId: string, workflow: WorkflowDefinition): Promise<WorkflowDefinition> {
+    const response = await this.client.request<WorkflowDefinition>(
+      'PUT',
+      `/v1/workflows/${workflowId}`,
+      workflow
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update workflow');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Delete a workflow
+   */
+  async delete(workflowId: string): Promise<void> {
+    const response = await this.client.request<void>(
+      'DELETE',
+      `/v1/workflows/${workflowId}`
+    );
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete workflow');
+    }
+  }
+
+  /**
+   * List every version of a workflow, oldest first
+   */
+  async listVersions(workflowId: string): Promise<WorkflowDefinition[]> {
+    const response = await this.client.request<WorkflowDefinition[]>(
+      'GET',
+      `/v1/workflows/${workflowId}/versions`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to list workflow versions');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Render a workflow as a Mermaid (default) or Graphviz DOT graph
+   */
+  async getGraph(
+    workflowId: string,
+    options?: { format?: WorkflowGraphFormat; version?: number }
+  ): Promise<string> {
+    const params = new URLSearchParams();
+    if (options?.format) {
+      params.set('format', options.format);
+    }
+    if (options?.version !== undefined) {
+      params.set('version', String(options.version));
+    }
+    const query = params.toString() ? `?${params}` : '';
+
+    const response = await this.client.request<string>(
+      'GET',
+      `/v1/workflows/${workflowId}/graph${query}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to export workflow graph');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * List workflow executions, most recently started first
+   */
+  async listExecutions(filter: WorkflowExecutionFilter = {}): Promise<WorkflowExecution[]> {
+    const params = new URLSearchParams();
+    Object.entries(filter).forEach(([key, value]) => {
+      if (value !== undefined) {
+        params.set(key, value instanceof Date ? value.toISOString() : String(value));
+      }
+    });
+    const query = params.toString() ? `?${params}` : '';
+
+    const response = await this.client.request<WorkflowExecution[]>(
+      'GET',
+      `/v1/workflow-executions${query}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to list workflow executions');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Get a workflow execution with its step history
+   */
+  async getExecution(executionId: string): Promise<WorkflowExecution> {
+    const response = await this.client.request<WorkflowExecution>(
+      'GET',
+      `/v1/workflow-executions/${executionId}`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Execution not found');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Cancel a running execution, a step that is already running finishes first
+   */
+  async cancelExecution(executionId: string): Promise<WorkflowExecution> {
+    const response = await this.client.request<WorkflowExecution>(
+      'POST',
+      `/v1/workflow-executions/${executionId}/cancel`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to cancel execution');
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Re-run a failed execution from the step that failed
+   */
+  async rerunExecution(executionId: string): Promise<WorkflowExecution> {
+    const response = await this.client.request<WorkflowExecution>(
+      'POST',
+      `/v1/workflow-executions/${executionId}/rerun`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to re-run execution');
+    }
+
+    return response.data;
+  }
+}
@@ -5,5 +5,6 @@ export interface OneShipConfig {
   apiKey: string;
   apiUrl?: string;
   timeout?: number;
+  tenantId?: string; // Sent with every request, selects the tenant's order workflow
 }
 
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WEBHOOK_HEADERS, WebhookEventType, computeWebhookSignature } from '@oneship/core';
+import { verifyWebhookSignature } from './webhook-signature';
+
+const secret = 'whsec_test';
+const body = JSON.stringify({
+  event: WebhookEventType.ORDER_DELIVERED,
+  timestamp: '2024-03-01T08:00:00.000Z',
+  data: { id: 'order-1' },
+  orderId: 'order-1',
+});
+
+/**
+ * Headers of a delivery signed `ageSeconds` ago, as Node's http module lowercases them
+ */
+function signedHeaders(ageSeconds: number = 0, signedBody: string = body): Record<string, string> {
+  const timestamp = Math.floor(Date.now() / 1000) - ageSeconds;
+  return {
+    [WEBHOOK_HEADERS.SIGNATURE.toLowerCase()]: computeWebhookSignature(secret, timestamp, signedBody),
+    [WEBHOOK_HEADERS.TIMESTAMP.toLowerCase()]: String(timestamp),
+    [WEBHOOK_HEADERS.DELIVERY_ID.toLowerCase()]: 'delivery-1',
+  };
+}
+
+describe('verifyWebhookSignature', () => {
+  it('parses a correctly signed delivery from a string or Buffer body', () => {
+    const payload = verifyWebhookSignature({ body, headers: signedHeaders(), secret });
+    assert.equal(payload.event, WebhookEventType.ORDER_DELIVERED);
+    assert.deepEqual(payload.timestamp, new Date('2024-03-01T08:00:00.000Z'));
+
+    const fromBuffer = verifyWebhookSignature({ body: Buffer.from(body), headers: signedHeaders(), secret });
+    assert.equal(fromBuffer.orderId, 'order-1');
+  });
+
+  it('rejects a tampered body, a wrong secret and missing headers', () => {
+    const headers = signedHeaders();
+    assert.throws(
+      () => verifyWebhookSignature({ body: body.replace('order-1', 'order-2'), headers, secret }),
+      /Invalid webhook signature/
+    );
+    assert.throws(() => verifyWebhookSignature({ body, headers, secret: 'whsec_other' }), /Invalid webhook signature/);
+    assert.throws(
+      () => verifyWebhookSignature({ body, headers: { [WEBHOOK_HEADERS.SIGNATURE]: 'sha256=00' }, secret }),
+      /Missing webhook signature or timestamp header/
+    );
+  });
+
+  it('rejects deliveries outside the tolerance window to stop replays', () => {
+    assert.throws(
+      () => verifyWebhookSignature({ body, headers: signedHeaders(301), secret }),
+      /outside the tolerance window/
+    );
+    assert.doesNotThrow(() =>
+      verifyWebhookSignature({ body, headers: signedHeaders(301), secret, toleranceSeconds: 600 })
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { timingSafeEqual } from 'crypto';
+import {
+  WebhookPayload,
+  WEBHOOK_HEADERS,
+  computeWebhookSignature,
+} from '@oneship/core';
+
+/**
+ * Options for verifying a webhook delivery
+ */
+export interface VerifyWebhookSignatureOptions {
+  body: string | Buffer; // Raw request body, exactly as received
+  headers: Record<string, string | string[] | undefined>;
+  secret: string;
+  toleranceSeconds?: number; // Maximum age of the delivery, defaults to 5 minutes
+}
+
+/**
+ * Verify a webhook delivery signed by OneShip and parse its payload
+ *
+ * Throws if the signature is missing or invalid, or if the timestamp is outside
+ * the tolerance window. Receivers should also store the delivery ID header and
+ * ignore deliveries they have already processed.
+ */
+export function verifyWebhookSignature(options: VerifyWebhookSignatureOptions): WebhookPayload {
+  const { secret, toleranceSeconds = 300 } = options;
+  const body = typeof options.body === 'string' ? options.body : options.body.toString('utf8');
+
+  const signature = getHeader(options.headers, WEBHOOK_HEADERS.SIGNATURE);
+  const timestampHeader = getHeader(options.headers, WEBHOOK_HEADERS.TIMESTAMP);
+  if (!signature || !timestampHeader) {
+    throw new Error('Missing webhook signature or timestamp header');
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp)) {
+    throw new Error('Invalid webhook timestamp header');
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    throw new Error('Webhook timestamp is outside the tolerance window');
+  }
+
+  const expected = Buffer.from(computeWebhookSignature(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    throw new Error('Invalid webhook signature');
+  }
+
+  const payload = JSON.parse(body) as WebhookPayload;
+  return {
+    ...payload,
+    timestamp: new Date(payload.timestamp),
+  };
+}
+
+/**
+ * Read a header case-insensitively
+ */
+function getHeader(headers: Record<string, string | string[] | undefined>, name: string): string | undefined {
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === name.toLowerCase());
+  const value = key ? headers[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
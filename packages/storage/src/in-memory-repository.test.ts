@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemoryRepository } from './in-memory-repository';
+
+interface Parcel {
+  id: string;
+  weight: number;
+}
+
+describe('InMemoryRepository', () => {
+  it('saves, replaces, filters and deletes entities by ID', async () => {
+    const repository = new InMemoryRepository<Parcel>();
+    await repository.save({ id: 'a', weight: 1 });
+    await repository.save({ id: 'b', weight: 4 });
+    await repository.save({ id: 'a', weight: 2 });
+
+    assert.deepEqual(await repository.findById('a'), { id: 'a', weight: 2 });
+    assert.deepEqual(await repository.findAll(), [
+      { id: 'a', weight: 2 },
+      { id: 'b', weight: 4 },
+    ]);
+    assert.deepEqual(await repository.findAll((parcel) => parcel.weight > 3), [{ id: 'b', weight: 4 }]);
+
+    await repository.delete('a');
+    await repository.delete('missing');
+    assert.equal(await repository.findById('a'), undefined);
+    assert.deepEqual(await repository.findAll(), [{ id: 'b', weight: 4 }]);
+  });
+});
@@ -0,0 +1,25 @@
+import { Repository } from '@oneship/core';
+
+/**
+ * In-memory repository, state is lost on restart
+ */
+export class InMemoryRepository<T extends { id: string }> implements Repository<T> {
+  private entities: Map<string, T> = new Map();
+
+  async findById(id: string): Promise<T | undefined> {
+    return this.entities.get(id);
+  }
+
+  async findAll(filter?: (entity: T) => boolean): Promise<T[]> {
+    const entities = Array.from(this.entities.values());
+    return filter ? entities.filter(filter) : entities;
+  }
+
+  async save(entity: T): Promise<void> {
+    this.entities.set(entity.id, entity);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.entities.delete(id);
+  }
+}
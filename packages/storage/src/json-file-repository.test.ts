@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileRepository } from './json-file-repository';
+
+interface StoredRecord {
+  id: string;
+  createdAt: Date;
+  events: Array<{ timestamp: Date; description: string }>;
+  metadata: { [key: string]: any };
+}
+
+async function withFile(run: (filePath: string) => Promise<void>): Promise<void> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'oneship-storage-'));
+  try {
+    await run(path.join(dir, 'records.json'));
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+describe('JsonFileRepository', () => {
+  it('reloads date fields as dates and keeps date-like user data as strings', async () => {
+    await withFile(async (filePath) => {
+      const record: StoredRecord = {
+        id: 'order-1',
+        createdAt: new Date('2024-03-01T08:00:00.000Z'),
+        events: [{ timestamp: new Date('2024-03-02T09:30:00.000Z'), description: 'Picked up' }],
+        metadata: { promisedBy: '2024-03-05T00:00:00.000Z', notes: ['2024-03-04T00:00:00Z'] },
+      };
+      await new JsonFileRepository<StoredRecord>(filePath).save(record);
+
+      const reloaded = await new JsonFileRepository<StoredRecord>(filePath).findById('order-1');
+      assert.deepEqual(reloaded, record);
+      assert.equal(reloaded?.createdAt instanceof Date, true);
+      assert.equal(reloaded?.events[0].timestamp instanceof Date, true);
+      assert.equal(typeof reloaded?.metadata.promisedBy, 'string');
+    });
+  });
+
+  it('starts empty without a file and persists deletes', async () => {
+    await withFile(async (filePath) => {
+      const repository = new JsonFileRepository<{ id: string }>(filePath);
+      assert.deepEqual(await repository.findAll(), []);
+
+      await repository.save({ id: 'a' });
+      await repository.save({ id: 'b' });
+      await repository.delete('a');
+
+      const reloaded = new JsonFileRepository<{ id: string }>(filePath);
+      assert.deepEqual(await reloaded.findAll(), [{ id: 'b' }]);
+    });
+  });
+});
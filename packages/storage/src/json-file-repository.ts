@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Repository } from '@oneship/core';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Fields the stored entities declare as Date, JSON.stringify writes them as ISO strings
+ */
+const DATE_FIELDS = new Set([
+  'at',
+  'attemptedAt',
+  'completedAt',
+  'createdAt',
+  'deactivatedAt',
+  'decidedAt',
+  'deletedAt',
+  'detectedAt',
+  'end',
+  'estimatedDelivery',
+  'nextAttemptAt',
+  'start',
+  'startedAt',
+  'timestamp',
+  'updatedAt',
+  'wakeUpAt',
+]);
+
+/**
+ * Revive date fields back into Date objects, leaving other strings such as metadata values as they are
+ */
+function reviveDates(key: string, value: any): any {
+  if (DATE_FIELDS.has(key) && typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    return new Date(value);
+  }
+  return value;
+}
+
+/**
+ * Repository persisted as a single JSON file
+ *
+ * Entities are cached in memory after the first read and the whole file is
+ * rewritten on every change. Writes are serialized and go through a temporary
+ * file so a crash never leaves a half-written file behind.
+ */
+export class JsonFileRepository<T extends { id: string }> implements Repository<T> {
+  private entities: Map<string, T> | null = null;
+  private loading: Promise<Map<string, T>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async findById(id: string): Promise<T | undefined> {
+    const entities = await this.load();
+    return entities.get(id);
+  }
+
+  async findAll(filter?: (entity: T) => boolean): Promise<T[]> {
+    const entities = Array.from((await this.load()).values());
+    return filter ? entities.filter(filter) : entities;
+  }
+
+  async save(entity: T): Promise<void> {
+    const entities = await this.load();
+    entities.set(entity.id, entity);
+    await this.flush();
+  }
+
+  async delete(id: string): Promise<void> {
+    const entities = await this.load();
+    if (entities.delete(id)) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Load entities from disk once
+   */
+  private async load(): Promise<Map<string, T>> {
+    if (this.entities) {
+      return this.entities;
+    }
+
+    if (!this.loading) {
+      this.loading = this.readFile().then((entities) => {
+        this.entities = entities;
+        return entities;
+      });
+    }
+
+    return this.loading;
+  }
+
+  /**
+   * Read entities from the JSON file, starting empty if it does not exist
+   */
+  private async readFile(): Promise<Map<string, T>> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      const records = JSON.parse(content, reviveDates) as T[];
+      return new Map(records.map((record) => [record.id, record]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Map();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write all entities to disk
+   */
+  private flush(): Promise<void> {
+    const write = async () => {
+      const records = Array.from(this.entities?.values() || []);
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(records, null, 2), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    };
+
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
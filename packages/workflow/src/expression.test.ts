@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateExpression, parseExpression } from './expression';
+
+const scope = {
+  to: { province: '广东', city: '深圳' },
+  items: [
+    { name: 'Shoes', weight: 2, quantity: 1 },
+    { name: 'Coat', weight: 7, quantity: 2 },
+  ],
+  order: { status: 'exception', orderNumber: null, createdAt: new Date('2024-01-02T00:00:00Z') },
+};
+
+describe('evaluateExpression', () => {
+  it('combines comparisons, logic and arithmetic', () => {
+    assert.equal(evaluateExpression('to.province == "广东" && sum(items.weight) > 5', scope), true);
+    assert.equal(evaluateExpression('!(len(items) > 2) || false', scope), true);
+    assert.equal(evaluateExpression('items[1].weight * items[1].quantity - 4', scope), 10);
+    assert.equal(evaluateExpression('"深" in to.city && order.status in ["exception", "lost"]', scope), true);
+  });
+
+  it('maps member access over lists', () => {
+    assert.deepEqual(evaluateExpression('items.name', scope), ['Shoes', 'Coat']);
+    assert.equal(evaluateExpression('max(items.weight)', scope), 7);
+    assert.equal(evaluateExpression('min(items.weight)', scope), 2);
+  });
+
+  it('compares every item of a list inside any() and all()', () => {
+    assert.equal(evaluateExpression('any(items.weight > 5)', scope), true);
+    assert.equal(evaluateExpression('all(items.weight > 5)', scope), false);
+    assert.equal(evaluateExpression('all(1 <= items.weight)', scope), true);
+    assert.equal(evaluateExpression('any(items.name == "Coat")', scope), true);
+    assert.equal(evaluateExpression('any(items.weight == [2, 7])', scope), true);
+  });
+
+  it('matches a list compared with a single value when any item matches', () => {
+    assert.equal(evaluateExpression('items.weight > 5', scope), true);
+    assert.equal(evaluateExpression('items.weight > 7', scope), false);
+    assert.equal(evaluateExpression('5 < items.weight', scope), true);
+    assert.equal(evaluateExpression('items.name == "Coat"', scope), true);
+    assert.equal(evaluateExpression('items == null', scope), false);
+  });
+
+  it('evaluates the documented condition example', () => {
+    const expression = 'order.to.province == "广东" && items.weight > 5';
+    assert.equal(evaluateExpression(expression, { order: { to: scope.to }, items: scope.items }), true);
+    assert.equal(evaluateExpression(expression, { order: { to: scope.to }, items: [{ weight: 1 }] }), false);
+    assert.equal(evaluateExpression(expression, { order: { to: { province: '浙江' } }, items: scope.items }), false);
+  });
+
+  it('rejects comparing two lists outside any() and all()', () => {
+    assert.throws(() => evaluateExpression('items.weight == [2, 7]', scope), /wrap the comparison in any\(\) or all\(\)/);
+    assert.throws(() => evaluateExpression('any(items.weight == [2])', scope), /lists of 2 and 1 items/);
+  });
+
+  it('treats missing properties as null', () => {
+    assert.equal(evaluateExpression('order.trackingNumber == null', scope), true);
+    assert.equal(evaluateExpression('exists(order.orderNumber)', scope), false);
+    assert.equal(evaluateExpression('missing.deeply.nested', scope), null);
+  });
+
+  it('compares dates by time', () => {
+    const dated = { ...scope, cutoff: new Date('2024-01-01T00:00:00Z') };
+    assert.equal(evaluateExpression('order.createdAt > cutoff', dated), true);
+  });
+
+  it('rejects comparisons between different types', () => {
+    assert.throws(() => evaluateExpression('to.province > 5', scope), /cannot compare string "广东" with number 5/);
+  });
+});
+
+describe('expression sandbox', () => {
+  it('does not reach prototypes, constructors or inherited properties', () => {
+    assert.equal(evaluateExpression('to.__proto__', scope), null);
+    assert.equal(evaluateExpression('to.constructor', scope), null);
+    assert.equal(evaluateExpression('to["constructor"]', scope), null);
+    assert.equal(evaluateExpression('to.hasOwnProperty', scope), null);
+    assert.deepEqual(evaluateExpression('items.constructor', scope), [null, null]);
+  });
+
+  it('does not call functions on the scope', () => {
+    const withFunction = { hook: () => 'called' };
+    assert.equal(evaluateExpression('hook', withFunction), null);
+    assert.throws(() => parseExpression('hook()'), /unknown function "hook"/);
+  });
+
+  it('rejects syntax outside the language', () => {
+    assert.throws(() => parseExpression('a = 1'), /unexpected character "="/);
+    assert.throws(() => parseExpression('process.exit(1)'), /unexpected "\(" at position 12/);
+    assert.throws(() => parseExpression('"unterminated'), /unterminated string/);
+    assert.throws(() => parseExpression('1 +'), /unexpected end of expression/);
+    assert.throws(() => parseExpression(''), /non-empty string/);
+    assert.throws(() => parseExpression('1 + '.repeat(600) + '1'), /longer than 2000 characters/);
+  });
+});
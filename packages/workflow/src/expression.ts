@@ -0,0 +1,569 @@
+/**
+ * Sandboxed expression language for workflow conditions
+ *
+ * Expressions are parsed and interpreted here, never passed to `eval` or `Function`.
+ * They can read own properties of the scope, use a fixed set of operators and call
+ * the functions in EXPRESSION_FUNCTIONS, nothing else.
+ *
+ *   order.to.province == "广东" && items.weight > 5
+ *   order.status in ["exception", "lost"] || !exists(order.orderNumber)
+ *
+ * Reading a property of an array maps it over the elements, so `items.weight` is
+ * the list of item weights. Missing properties evaluate to null. A list compared with a
+ * single value matches when any item does, `all(items.weight > 5)` requires every item to.
+ */
+
+type Node =
+  | { kind: 'literal'; value: any }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'member'; object: Node; property: Node; computed: boolean }
+  | { kind: 'array'; elements: Node[] }
+  | { kind: 'call'; name: string; args: Node[] }
+  | { kind: 'unary'; operator: string; operand: Node }
+  | { kind: 'binary'; operator: string; left: Node; right: Node };
+
+type Token =
+  | { type: 'number' | 'string'; value: any; pos: number }
+  | { type: 'identifier' | 'operator'; value: string; pos: number };
+
+/**
+ * Maximum expression length accepted by the parser
+ */
+const MAX_EXPRESSION_LENGTH = 2000;
+
+/**
+ * Number of parsed expressions kept, least recently used ones are parsed again
+ */
+const MAX_PARSED_EXPRESSIONS = 500;
+
+/**
+ * Properties that are never readable, even when present on the scope
+ */
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '+', '-', '*', '/', '%', '(', ')', '[', ']', '.', ','];
+
+/**
+ * Functions callable from expressions
+ */
+export const EXPRESSION_FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  len: (value: any) => (Array.isArray(value) || typeof value === 'string' ? value.length : 0),
+  sum: (values: any) => toNumbers(values, 'sum').reduce((total, value) => total + value, 0),
+  min: (values: any) => {
+    const numbers = toNumbers(values, 'min');
+    return numbers.length ? Math.min(...numbers) : null;
+  },
+  max: (values: any) => {
+    const numbers = toNumbers(values, 'max');
+    return numbers.length ? Math.max(...numbers) : null;
+  },
+  lower: (value: any) => (typeof value === 'string' ? value.toLowerCase() : value),
+  upper: (value: any) => (typeof value === 'string' ? value.toUpperCase() : value),
+  exists: (value: any) => value !== null && value !== undefined,
+  any: (values: any) => toList(values, 'any').some((value) => !!value),
+  all: (values: any) => toList(values, 'all').every((value) => !!value),
+};
+
+/**
+ * Functions that compare a list item by item when their argument is a comparison
+ */
+const QUANTIFIERS = new Set(['any', 'all']);
+
+const COMPARISON_OPERATORS = new Set(['==', '!=', '===', '!==', '<', '<=', '>', '>=']);
+
+/**
+ * Parsed expressions by source text, in least to most recently used order
+ */
+const parsed: Map<string, Node> = new Map();
+
+/**
+ * Evaluate an expression against a scope
+ */
+export function evaluateExpression(expression: string, scope: Record<string, any>): any {
+  let ast = parsed.get(expression);
+  if (ast) {
+    parsed.delete(expression);
+  } else {
+    ast = parseExpression(expression);
+    if (parsed.size >= MAX_PARSED_EXPRESSIONS) {
+      parsed.delete(parsed.keys().next().value!);
+    }
+  }
+  parsed.set(expression, ast);
+
+  try {
+    return evaluate(ast, scope);
+  } catch (error) {
+    throw new Error(`Failed to evaluate expression "${expression}": ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Parse an expression, throwing on syntax errors
+ */
+export function parseExpression(expression: string): Node {
+  if (typeof expression !== 'string' || !expression.trim()) {
+    throw new Error('Expression must be a non-empty string');
+  }
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  try {
+    return new Parser(tokenize(expression)).parse();
+  } catch (error) {
+    throw new Error(`Invalid expression "${expression}": ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(pos))!;
+      tokens.push({ type: 'number', value: Number(match[0]), pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = pos + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\' && end + 1 < source.length) {
+          const escaped = source[end + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          end += 2;
+        } else {
+          value += source[end++];
+        }
+      }
+      if (end >= source.length) {
+        throw new Error(`unterminated string at position ${pos}`);
+      }
+      tokens.push({ type: 'string', value, pos });
+      pos = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(pos))!;
+      tokens.push({ type: 'identifier', value: match[0], pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, pos));
+    if (!operator) {
+      throw new Error(`unexpected character "${char}" at position ${pos}`);
+    }
+    tokens.push({ type: 'operator', value: operator, pos });
+    pos += operator.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser, lowest precedence first
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.parseOr();
+    if (this.index < this.tokens.length) {
+      throw new Error(`unexpected "${this.tokens[this.index].value}" at position ${this.tokens[this.index].pos}`);
+    }
+    return node;
+  }
+
+  private parseOr(): Node {
+    return this.parseBinary(['||'], () => this.parseAnd());
+  }
+
+  private parseAnd(): Node {
+    return this.parseBinary(['&&'], () => this.parseEquality());
+  }
+
+  private parseEquality(): Node {
+    return this.parseBinary(['==', '!=', '===', '!=='], () => this.parseRelational());
+  }
+
+  private parseRelational(): Node {
+    return this.parseBinary(['<', '<=', '>', '>=', 'in'], () => this.parseAdditive());
+  }
+
+  private parseAdditive(): Node {
+    return this.parseBinary(['+', '-'], () => this.parseMultiplicative());
+  }
+
+  private parseMultiplicative(): Node {
+    return this.parseBinary(['*', '/', '%'], () => this.parseUnary());
+  }
+
+  private parseBinary(operators: string[], next: () => Node): Node {
+    let left = next();
+    while (this.peekAny(operators)) {
+      const operator = this.tokens[this.index++].value as string;
+      left = { kind: 'binary', operator, left, right: next() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Node {
+    if (this.peekAny(['!', '-'])) {
+      const operator = this.tokens[this.index++].value as string;
+      return { kind: 'unary', operator, operand: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Node {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.match('.')) {
+        const token = this.expect('identifier', 'property name');
+        node = { kind: 'member', object: node, property: { kind: 'literal', value: token.value }, computed: false };
+      } else if (this.match('[')) {
+        const property = this.parseOr();
+        this.expectOperator(']');
+        node = { kind: 'member', object: node, property, computed: true };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): Node {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new Error('unexpected end of expression');
+    }
+
+    if (token.type === 'number' || token.type === 'string') {
+      this.index++;
+      return { kind: 'literal', value: token.value };
+    }
+
+    if (token.type === 'identifier') {
+      this.index++;
+      if (token.value === 'true' || token.value === 'false') {
+        return { kind: 'literal', value: token.value === 'true' };
+      }
+      if (token.value === 'null') {
+        return { kind: 'literal', value: null };
+      }
+      if (this.match('(')) {
+        if (!Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, token.value)) {
+          throw new Error(`unknown function "${token.value}"`);
+        }
+        return { kind: 'call', name: token.value, args: this.parseList(')') };
+      }
+      return { kind: 'identifier', name: token.value };
+    }
+
+    if (this.match('(')) {
+      const node = this.parseOr();
+      this.expectOperator(')');
+      return node;
+    }
+
+    if (this.match('[')) {
+      return { kind: 'array', elements: this.parseList(']') };
+    }
+
+    throw new Error(`unexpected "${token.value}" at position ${token.pos}`);
+  }
+
+  private parseList(close: string): Node[] {
+    const items: Node[] = [];
+    if (this.match(close)) {
+      return items;
+    }
+    do {
+      items.push(this.parseOr());
+    } while (this.match(','));
+    this.expectOperator(close);
+    return items;
+  }
+
+  private peekAny(values: string[]): boolean {
+    const token = this.tokens[this.index];
+    if (!token) {
+      return false;
+    }
+    // `in` is tokenized as an identifier
+    return (token.type === 'operator' || (token.type === 'identifier' && token.value === 'in')) &&
+      values.includes(token.value);
+  }
+
+  private match(operator: string): boolean {
+    const token = this.tokens[this.index];
+    if (token && token.type === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(operator: string): void {
+    if (!this.match(operator)) {
+      const token = this.tokens[this.index];
+      throw new Error(token ? `expected "${operator}" at position ${token.pos}` : `expected "${operator}"`);
+    }
+  }
+
+  private expect(type: Token['type'], description: string): Token {
+    const token = this.tokens[this.index];
+    if (!token || token.type !== type) {
+      throw new Error(`expected ${description}${token ? ` at position ${token.pos}` : ''}`);
+    }
+    this.index++;
+    return token;
+  }
+}
+
+/**
+ * Evaluate a parsed expression
+ */
+function evaluate(node: Node, scope: Record<string, any>): any {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      return readProperty(scope, node.name);
+
+    case 'member':
+      return readMember(evaluate(node.object, scope), evaluate(node.property, scope));
+
+    case 'array':
+      return node.elements.map((element) => evaluate(element, scope));
+
+    case 'call': {
+      const [first] = node.args;
+      if (QUANTIFIERS.has(node.name) && first?.kind === 'binary' && COMPARISON_OPERATORS.has(first.operator)) {
+        return EXPRESSION_FUNCTIONS[node.name](evaluateComparisons(first, scope));
+      }
+      return EXPRESSION_FUNCTIONS[node.name](...node.args.map((arg) => evaluate(arg, scope)));
+    }
+
+    case 'unary': {
+      const operand = evaluate(node.operand, scope);
+      return node.operator === '!' ? !operand : -requireNumber(operand, '-');
+    }
+
+    case 'binary':
+      return evaluateBinary(node, scope);
+  }
+}
+
+/**
+ * Evaluate a comparison for every item of a list on either side, e.g. `items.weight > 5`
+ *
+ * Two lists are compared item by item, a list and a single value compare every item with the value.
+ */
+function evaluateComparisons(node: Extract<Node, { kind: 'binary' }>, scope: Record<string, any>): boolean[] {
+  const left = evaluate(node.left, scope);
+  const right = evaluate(node.right, scope);
+  if (!Array.isArray(left) && !Array.isArray(right)) {
+    return [compareValues(node.operator, left, right)];
+  }
+  if (Array.isArray(left) && Array.isArray(right) && left.length !== right.length) {
+    throw new Error(`cannot compare lists of ${left.length} and ${right.length} items using "${node.operator}"`);
+  }
+
+  const length = Array.isArray(left) ? left.length : right.length;
+  return Array.from({ length }, (_, index) =>
+    compareValues(node.operator, Array.isArray(left) ? left[index] : left, Array.isArray(right) ? right[index] : right)
+  );
+}
+
+/**
+ * Evaluate a binary operator, short-circuiting && and ||
+ */
+function evaluateBinary(node: Extract<Node, { kind: 'binary' }>, scope: Record<string, any>): any {
+  if (node.operator === '&&') {
+    return !!evaluate(node.left, scope) && !!evaluate(node.right, scope);
+  }
+  if (node.operator === '||') {
+    return !!evaluate(node.left, scope) || !!evaluate(node.right, scope);
+  }
+
+  const left = evaluate(node.left, scope);
+  const right = evaluate(node.right, scope);
+
+  if (COMPARISON_OPERATORS.has(node.operator)) {
+    return compareValues(node.operator, left, right);
+  }
+
+  switch (node.operator) {
+    case 'in':
+      if (Array.isArray(right)) {
+        return right.some((item) => isEqual(item, left));
+      }
+      if (typeof right === 'string' && typeof left === 'string') {
+        return right.includes(left);
+      }
+      if (right !== null && typeof right === 'object') {
+        return typeof left === 'string' && readProperty(right, left) !== null;
+      }
+      throw new Error(`"in" needs a list, string or object on the right, got ${describe(right)}`);
+    case '+':
+      if (typeof left === 'string' && typeof right === 'string') {
+        return left + right;
+      }
+      return requireNumber(left, '+') + requireNumber(right, '+');
+    case '-':
+      return requireNumber(left, '-') - requireNumber(right, '-');
+    case '*':
+      return requireNumber(left, '*') * requireNumber(right, '*');
+    case '/':
+      return requireNumber(left, '/') / requireNumber(right, '/');
+    case '%':
+      return requireNumber(left, '%') % requireNumber(right, '%');
+    default:
+      throw new Error(`unsupported operator "${node.operator}"`);
+  }
+}
+
+/**
+ * Read an own property, null when missing or blocked
+ */
+function readProperty(target: any, key: string): any {
+  if (target === null || target === undefined || BLOCKED_PROPERTIES.has(key)) {
+    return null;
+  }
+  if (typeof target === 'string' && key === 'length') {
+    return target.length;
+  }
+  if (typeof target !== 'object' || !Object.prototype.hasOwnProperty.call(target, key)) {
+    return null;
+  }
+  const value = target[key];
+  return value === undefined || typeof value === 'function' ? null : value;
+}
+
+/**
+ * Read `object.property` or `object[property]`, mapping over arrays for named properties
+ */
+function readMember(object: any, property: any): any {
+  if (Array.isArray(object)) {
+    if (typeof property === 'number') {
+      return Number.isInteger(property) ? readProperty(object, String(property)) : null;
+    }
+    if (property === 'length') {
+      return object.length;
+    }
+    return object.map((item) => readMember(item, property));
+  }
+  return readProperty(object, String(property));
+}
+
+/**
+ * Evaluate an equality or relational operator
+ *
+ * A list compared with a single value is true when any item matches, so `items.weight > 5`
+ * reads as "some item weighs more than 5".
+ */
+function compareValues(operator: string, left: any, right: any): boolean {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    throw new Error(
+      `cannot compare two lists using "${operator}", ` +
+        'wrap the comparison in any() or all() to compare them item by item'
+    );
+  }
+  if (Array.isArray(left) && right !== null) {
+    return left.some((item) => compareValues(operator, item, right));
+  }
+  if (Array.isArray(right) && left !== null) {
+    return right.some((item) => compareValues(operator, left, item));
+  }
+  switch (operator) {
+    case '==':
+    case '===':
+      return isEqual(left, right);
+    case '!=':
+    case '!==':
+      return !isEqual(left, right);
+    default:
+      return compare(operator, left, right);
+  }
+}
+
+function isEqual(left: any, right: any): boolean {
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return (left === null || left === undefined) && (right === null || right === undefined);
+  }
+  if (left instanceof Date || right instanceof Date) {
+    return toComparable(left) === toComparable(right);
+  }
+  return left === right;
+}
+
+function compare(operator: string, left: any, right: any): boolean {
+  const a = toComparable(left);
+  const b = toComparable(right);
+  if (typeof a !== typeof b || (typeof a !== 'number' && typeof a !== 'string')) {
+    throw new Error(`cannot compare ${describe(left)} with ${describe(right)} using "${operator}"`);
+  }
+
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+/**
+ * Dates compare by time
+ */
+function toComparable(value: any): any {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function requireNumber(value: any, operator: string): number {
+  if (typeof value !== 'number') {
+    throw new Error(`"${operator}" needs numbers, got ${describe(value)}`);
+  }
+  return value;
+}
+
+function toList(values: any, fn: string): any[] {
+  if (!Array.isArray(values)) {
+    throw new Error(`${fn}() needs a list, got ${describe(values)}`);
+  }
+  return values;
+}
+
+function toNumbers(values: any, fn: string): number[] {
+  return toList(values, fn).filter((value) => value !== null && value !== undefined).map((value) => requireNumber(value, `${fn}()`));
+}
+
+function describe(value: any): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'a list' : typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
@@ -1,4 +1,11 @@
 export * from './workflow-engine';
 export * from './workflow-definition';
 export * from './step-executor';
+export * from './expression';
+export * from './template';
+export * from './retry-policy';
+export * from './workflow-validation';
+export * from './workflow-graph';
+export * from './workflow-registry';
+export * from './trigger-dispatcher';
 
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WorkflowRetryPolicy } from '@oneship/core';
+import { isRetryable, retryDelay, withTimeout } from './retry-policy';
+
+function failure(name: string, code?: string): Error {
+  const error = new Error('failed');
+  error.name = name;
+  return Object.assign(error, { code });
+}
+
+describe('retryDelay', () => {
+  it('waits the same delay for every fixed retry', () => {
+    const policy: WorkflowRetryPolicy = { maxAttempts: 3, delay: 100 };
+    assert.deepEqual([1, 2, 3].map((attempt) => retryDelay(policy, attempt)), [100, 100, 100]);
+  });
+
+  it('grows exponential delays by the multiplier up to the maximum', () => {
+    const doubling: WorkflowRetryPolicy = { maxAttempts: 5, delay: 100, backoff: 'exponential' };
+    assert.deepEqual([1, 2, 3, 4].map((attempt) => retryDelay(doubling, attempt)), [100, 200, 400, 800]);
+
+    const capped: WorkflowRetryPolicy = { ...doubling, multiplier: 3, maxDelay: 500 };
+    assert.deepEqual([1, 2, 3].map((attempt) => retryDelay(capped, attempt)), [100, 300, 500]);
+  });
+
+  it('picks a jittered delay between zero and the computed delay', () => {
+    const policy: WorkflowRetryPolicy = { maxAttempts: 5, delay: 100, backoff: 'exponential', jitter: true };
+    for (let i = 0; i < 50; i++) {
+      const delay = retryDelay(policy, 3);
+      assert.equal(delay >= 0 && delay <= 400, true, `${delay} is outside 0-400`);
+    }
+  });
+});
+
+describe('isRetryable', () => {
+  it('retries every error without filters', () => {
+    assert.equal(isRetryable({ maxAttempts: 2, delay: 0 }, failure('Error')), true);
+  });
+
+  it('matches retryOn and doNotRetryOn by error name or code', () => {
+    const policy: WorkflowRetryPolicy = { maxAttempts: 2, delay: 0, retryOn: ['ECONNRESET', 'RateLimitError'] };
+    assert.equal(isRetryable(policy, failure('Error', 'ECONNRESET')), true);
+    assert.equal(isRetryable(policy, failure('RateLimitError')), true);
+    assert.equal(isRetryable(policy, failure('ValidationError')), false);
+
+    const excluding: WorkflowRetryPolicy = { ...policy, doNotRetryOn: ['ECONNRESET'] };
+    assert.equal(isRetryable(excluding, failure('Error', 'ECONNRESET')), false);
+  });
+
+  it('only retries timeouts that retryOn lists', () => {
+    const timeout = failure('TimeoutError');
+    assert.equal(isRetryable({ maxAttempts: 2, delay: 0 }, timeout), false);
+    assert.equal(isRetryable({ maxAttempts: 2, delay: 0, retryOn: ['ECONNRESET'] }, timeout), false);
+    assert.equal(isRetryable({ maxAttempts: 2, delay: 0, retryOn: ['TimeoutError'] }, timeout), true);
+  });
+});
+
+describe('withTimeout', () => {
+  it('rejects with a TimeoutError when the attempt takes too long', async () => {
+    const slow = new Promise((resolve) => setTimeout(() => resolve('late'), 50));
+    await assert.rejects(withTimeout(slow, 5, 'book'), {
+      name: 'TimeoutError',
+      message: 'Step book timed out after 5ms',
+    });
+  });
+
+  it('resolves attempts that finish in time or have no timeout', async () => {
+    assert.equal(await withTimeout(Promise.resolve('done'), 50, 'book'), 'done');
+    assert.equal(await withTimeout(Promise.resolve('done'), undefined, 'book'), 'done');
+  });
+});
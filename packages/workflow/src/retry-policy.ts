@@ -0,0 +1,74 @@
+import { WorkflowRetryPolicy } from '@oneship/core';
+
+/**
+ * Name of the error thrown when a step attempt exceeds its timeout
+ */
+export const STEP_TIMEOUT_ERROR = 'TimeoutError';
+
+/**
+ * Delay before the next attempt after `attempt` attempts have failed
+ */
+export function retryDelay(policy: WorkflowRetryPolicy, attempt: number): number {
+  let delay = policy.delay;
+  if (policy.backoff === 'exponential') {
+    delay = policy.delay * Math.pow(policy.multiplier ?? 2, attempt - 1);
+    if (policy.maxDelay !== undefined) {
+      delay = Math.min(delay, policy.maxDelay);
+    }
+  }
+  // Full jitter spreads out retries of executions that failed at the same time
+  return policy.jitter ? Math.round(Math.random() * delay) : delay;
+}
+
+/**
+ * Whether a policy allows retrying an error, judged by the error's name and code
+ *
+ * Timeouts are only retried when `retryOn` lists them, as the timed out call may still succeed.
+ */
+export function isRetryable(policy: WorkflowRetryPolicy, error: unknown): boolean {
+  const classes = errorClasses(error);
+  if (policy.doNotRetryOn?.some((errorClass) => classes.includes(errorClass))) {
+    return false;
+  }
+  if (classes.includes(STEP_TIMEOUT_ERROR) && !policy.retryOn?.includes(STEP_TIMEOUT_ERROR)) {
+    return false;
+  }
+  return !policy.retryOn || policy.retryOn.some((errorClass) => classes.includes(errorClass));
+}
+
+/**
+ * Run a step attempt, rejecting with a TimeoutError if it takes longer than `timeout` milliseconds
+ *
+ * The attempt itself cannot be aborted and keeps running in the background.
+ */
+export async function withTimeout<T>(attempt: Promise<T>, timeout: number | undefined, stepId: string): Promise<T> {
+  if (!timeout) {
+    return await attempt;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`Step ${stepId} timed out after ${timeout}ms`);
+      error.name = STEP_TIMEOUT_ERROR;
+      reject(error);
+    }, timeout);
+  });
+
+  try {
+    return await Promise.race([attempt, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Name and code of an error, e.g. `['Error', 'ECONNRESET']`
+ */
+function errorClasses(error: unknown): string[] {
+  if (!error || typeof error !== 'object') {
+    return [];
+  }
+  const { name, code } = error as { name?: unknown; code?: unknown };
+  return [name, code].filter((value): value is string => typeof value === 'string');
+}
@@ -1,12 +1,16 @@
 import {
+  WorkflowExecution,
   WorkflowStep,
   WorkflowStepStatus,
+  WorkflowBranch,
   CreateOrderRequest,
   QueryOrderRequest,
   IProvider,
   FreeShippingNotification,
+  ShippingOrder,
 } from '@oneship/core';
 import { WorkflowStepDefinition } from './workflow-definition';
+import { evaluateExpression } from './expression';
 
 /**
  * Context passed to step executors
@@ -19,15 +23,39 @@ export interface StepExecutionContext {
   [key: string]: any;
 }
 
+/**
+ * Result of executing a step
+ */
+export interface StepExecutionResult {
+  output?: Record<string, any>;
+  nextStepId?: string;
+  waitUntil?: Date; // Suspend the execution until this time before running the next step
+}
+
 /**
  * Step executor interface
+ *
+ * `execution` is the execution the step runs in, for executors that link other records to it.
  */
 export interface IStepExecutor {
   execute(
     step: WorkflowStepDefinition,
     context: StepExecutionContext,
-    providers: Map<string, IProvider>
-  ): Promise<{ output?: Record<string, any>; nextStepId?: string }>;
+    providers: Map<string, IProvider>,
+    execution?: WorkflowExecution
+  ): Promise<StepExecutionResult>;
+}
+
+/**
+ * Child execution a sub_workflow step asks the engine to run
+ */
+export interface SubWorkflowRequest {
+  workflowId: string;
+  version?: number; // Latest version when unset
+  context: StepExecutionContext;
+  parentExecutionId?: string;
+  parentStepId: string;
+  wait: boolean; // Resolve once the child finished rather than once it started
 }
 
 /**
@@ -38,7 +66,7 @@ export class CreateOrderStepExecutor implements IStepExecutor {
     step: WorkflowStepDefinition,
     context: StepExecutionContext,
     providers: Map<string, IProvider>
-  ): Promise<{ output?: Record<string, any>; nextStepId?: string }> {
+  ): Promise<StepExecutionResult> {
     const providerId = step.provider || context.provider;
     if (!providerId) {
       throw new Error('Provider is required for create_order step');
@@ -78,7 +106,7 @@ export class QueryOrderStepExecutor implements IStepExecutor {
     step: WorkflowStepDefinition,
     context: StepExecutionContext,
     providers: Map<string, IProvider>
-  ): Promise<{ output?: Record<string, any>; nextStepId?: string }> {
+  ): Promise<StepExecutionResult> {
     const providerId = step.provider || context.provider;
     if (!providerId) {
       throw new Error('Provider is required for query_order step');
@@ -110,6 +138,43 @@ export class QueryOrderStepExecutor implements IStepExecutor {
   }
 }
 
+/**
+ * Cancel order step executor
+ *
+ * Cancels `config.orderId`, else the order in the context, e.g. the one a create_order
+ * step created. Couriers cancel by their own order number when they assigned one.
+ */
+export class CancelOrderStepExecutor implements IStepExecutor {
+  async execute(
+    step: WorkflowStepDefinition,
+    context: StepExecutionContext,
+    providers: Map<string, IProvider>
+  ): Promise<StepExecutionResult> {
+    const order = context.order as ShippingOrder | undefined;
+    const providerId = step.provider || order?.provider || context.provider;
+    if (!providerId) {
+      throw new Error('Provider is required for cancel_order step');
+    }
+
+    const orderId = step.config?.orderId || order?.orderNumber || order?.id || context.orderId;
+    if (!orderId) {
+      throw new Error('Order ID is required for cancel_order step');
+    }
+
+    const provider = providers.get(providerId);
+    if (!provider) {
+      throw new Error(`Provider ${providerId} not found`);
+    }
+
+    await provider.cancelOrder(orderId);
+
+    return {
+      output: { cancelledOrderId: orderId },
+      nextStepId: step.onSuccess,
+    };
+  }
+}
+
 /**
  * Check free shipping step executor
  */
@@ -118,7 +183,7 @@ export class CheckFreeShippingStepExecutor implements IStepExecutor {
     step: WorkflowStepDefinition,
     context: StepExecutionContext,
     providers: Map<string, IProvider>
-  ): Promise<{ output?: Record<string, any>; nextStepId?: string }> {
+  ): Promise<StepExecutionResult> {
     const providerId = step.provider || context.provider;
     if (!providerId) {
       throw new Error('Provider is required for check_free_shipping step');
@@ -151,6 +216,10 @@ export class CheckFreeShippingStepExecutor implements IStepExecutor {
 
 /**
  * Webhook step executor
+ *
+ * Sends `config.payload` as the request body when it is set, otherwise the event,
+ * the execution input and the order. A failed call continues with `onFailure` when
+ * the step has one and fails the step otherwise.
  */
 export class WebhookStepExecutor implements IStepExecutor {
   private webhookCaller: (url: string, payload: any) => Promise<void>;
@@ -163,13 +232,13 @@ export class WebhookStepExecutor implements IStepExecutor {
     step: WorkflowStepDefinition,
     context: StepExecutionContext,
     providers: Map<string, IProvider>
-  ): Promise<{ output?: Record<string, any>; nextStepId?: string }> {
+  ): Promise<StepExecutionResult> {
     const webhookUrl = step.config?.url || context.input?.webhookUrl;
     if (!webhookUrl) {
       throw new Error('Webhook URL is required for webhook step');
     }
 
-    const payload = {
+    const payload = step.config?.payload ?? {
       event: step.config?.event,
       data: context.input,
       orderId: context.orderId,
@@ -184,6 +253,10 @@ export class WebhookStepExecutor implements IStepExecutor {
         nextStepId: step.onSuccess,
       };
     } catch (error) {
+      // Without a failure step the step fails, so its retry policy applies
+      if (!step.onFailure) {
+        throw error;
+      }
       return {
         output: { success: false, error: (error as Error).message },
         nextStepId: step.onFailure,
@@ -200,15 +273,133 @@ export class DelayStepExecutor implements IStepExecutor {
     step: WorkflowStepDefinition,
     context: StepExecutionContext,
     providers: Map<string, IProvider>
-  ): Promise<{ output?: Record<string, any>; nextStepId?: string }> {
+  ): Promise<StepExecutionResult> {
     const delay = step.config?.delay || 1000; // Default 1 second
+    const wakeUpAt = new Date(Date.now() + delay);
+
+    // The engine persists the wake-up time instead of holding an in-memory timer
+    return {
+      output: { delayed: delay, wakeUpAt },
+      nextStepId: step.onSuccess,
+      waitUntil: wakeUpAt,
+    };
+  }
+}
+
+/**
+ * Condition step executor
+ *
+ * Evaluates `config.expression` and continues with `config.onTrue` (default `onSuccess`)
+ * when it is truthy, otherwise with `config.onFalse` (default `onFailure`).
+ */
+export class ConditionStepExecutor implements IStepExecutor {
+  async execute(
+    step: WorkflowStepDefinition,
+    context: StepExecutionContext,
+    providers: Map<string, IProvider>
+  ): Promise<StepExecutionResult> {
+    const expression = step.config?.expression;
+    if (!expression) {
+      throw new Error('Expression is required for condition step');
+    }
 
-    await new Promise((resolve) => setTimeout(resolve, delay));
+    // Input fields such as `to` and `items` are readable directly, step outputs such as `order` win on conflicts
+    const matched = !!evaluateExpression(expression, { ...context.input, ...context });
 
     return {
-      output: { delayed: delay },
+      output: { conditions: { ...context.conditions, [step.id]: matched } },
+      nextStepId: matched
+        ? step.config?.onTrue ?? step.onSuccess
+        : step.config?.onFalse ?? step.onFailure,
+    };
+  }
+}
+
+/**
+ * Sub-workflow step executor
+ *
+ * Runs `config.workflowId` as a child execution for the parent's order with
+ * `config.input` (default the parent's input) as its input, and waits for it to finish unless `config.wait` is
+ * false. A child that does not succeed fails the step.
+ */
+export class SubWorkflowStepExecutor implements IStepExecutor {
+  private runChild: (request: SubWorkflowRequest) => Promise<WorkflowExecution>;
+
+  constructor(runChild: (request: SubWorkflowRequest) => Promise<WorkflowExecution>) {
+    this.runChild = runChild;
+  }
+
+  async execute(
+    step: WorkflowStepDefinition,
+    context: StepExecutionContext,
+    providers: Map<string, IProvider>,
+    execution?: WorkflowExecution
+  ): Promise<StepExecutionResult> {
+    const workflowId = step.config?.workflowId;
+    if (!workflowId) {
+      throw new Error('Workflow ID is required for sub_workflow step');
+    }
+
+    // The order a create_order step made earlier in the parent, if any
+    const order = context.order as ShippingOrder | undefined;
+    const wait = step.config?.wait !== false;
+    const child = await this.runChild({
+      workflowId,
+      version: step.config?.version,
+      context: {
+        orderId: context.orderId || order?.id,
+        provider: step.provider || context.provider || order?.provider,
+        input: step.config?.input ?? context.input,
+      },
+      parentExecutionId: execution?.id,
+      parentStepId: step.id,
+      wait,
+    });
+
+    if (wait && child.status !== WorkflowStepStatus.SUCCESS) {
+      const reason = child.error ? `: ${child.error}` : '';
+      throw new Error(`Workflow ${workflowId} execution ${child.id} ${child.status}${reason}`);
+    }
+
+    return {
+      output: wait ? { childExecutionId: child.id, childContext: child.context } : { childExecutionId: child.id },
       nextStepId: step.onSuccess,
     };
   }
 }
 
+/**
+ * Join step executor
+ *
+ * Runs after the branches of a parallel step and merges their outputs into the
+ * context in branch order, so later branches win on conflicting keys. With
+ * `config.mode` `all` (default) every branch must succeed, with `any` one is enough.
+ */
+export class JoinStepExecutor implements IStepExecutor {
+  async execute(
+    step: WorkflowStepDefinition,
+    context: StepExecutionContext,
+    providers: Map<string, IProvider>
+  ): Promise<StepExecutionResult> {
+    const branches = Object.entries((context.branches || {}) as Record<string, WorkflowBranch>);
+    const succeeded = branches.filter(([, branch]) => branch.status === WorkflowStepStatus.SUCCESS);
+    const failed = branches.filter(([, branch]) => branch.status === WorkflowStepStatus.FAILED);
+
+    const satisfied = step.config?.mode === 'any' ? succeeded.length > 0 : failed.length === 0;
+    if (!satisfied) {
+      const error = `Parallel branches failed: ${failed.map(([id, branch]) => `${id}: ${branch.error}`).join('; ')}`;
+      if (!step.onFailure) {
+        throw new Error(error);
+      }
+      return {
+        output: { joinError: error },
+        nextStepId: step.onFailure,
+      };
+    }
+
+    return {
+      output: Object.assign({}, ...succeeded.map(([, branch]) => branch.output)),
+      nextStepId: step.onSuccess,
+    };
+  }
+}
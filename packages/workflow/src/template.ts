@@ -0,0 +1,109 @@
+/**
+ * `{{ path }}` templates in workflow step configs
+ *
+ * A path is a dot-separated list of property names read from the template scope,
+ * for example `{{ steps.step-1.output.trackingNumber }}` or `{{ items.0.name }}`.
+ * Names may contain any character except dots, braces and whitespace, so step IDs
+ * with dashes work as they are. A string that is exactly one template becomes the
+ * referenced value itself; templates inside longer strings are interpolated, with
+ * objects written as JSON.
+ */
+
+const TEMPLATE_PATTERN = /\{\{([^{}]*)\}\}/g;
+
+const WHOLE_TEMPLATE_PATTERN = /^\{\{([^{}]*)\}\}$/;
+
+const PATH_PATTERN = /^[^.\s{}]+(\.[^.\s{}]+)*$/;
+
+/**
+ * Properties that are never readable, even when present on the scope
+ */
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+/**
+ * Replace templates in every string of a config value, throwing on unresolved references
+ */
+export function renderTemplates(value: any, scope: Record<string, any>, location: string = 'config'): any {
+  if (typeof value === 'string') {
+    return renderString(value, scope, location);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => renderTemplates(item, scope, `${location}[${index}]`));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const rendered: Record<string, any> = {};
+    Object.entries(value).forEach(([key, item]) => {
+      rendered[key] = renderTemplates(item, scope, `${location}.${key}`);
+    });
+    return rendered;
+  }
+  return value;
+}
+
+/**
+ * Template paths used in a config value, throwing on malformed templates
+ */
+export function findTemplatePaths(value: any, location: string = 'config'): string[] {
+  if (typeof value === 'string') {
+    if (value.replace(TEMPLATE_PATTERN, '').match(/\{\{|\}\}/)) {
+      throw new Error(`Unbalanced template braces in ${location}`);
+    }
+    return Array.from(value.matchAll(TEMPLATE_PATTERN)).map((match) => parsePath(match[1], location));
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => findTemplatePaths(item, `${location}[${index}]`));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => findTemplatePaths(item, `${location}.${key}`));
+  }
+  return [];
+}
+
+/**
+ * Render one string, keeping the value's type when the string is a single template
+ */
+function renderString(value: string, scope: Record<string, any>, location: string): any {
+  const whole = value.match(WHOLE_TEMPLATE_PATTERN);
+  if (whole) {
+    return resolvePath(parsePath(whole[1], location), scope, location);
+  }
+
+  return value.replace(TEMPLATE_PATTERN, (match, path: string) => {
+    const resolved = resolvePath(parsePath(path, location), scope, location);
+    if (resolved === null) {
+      return '';
+    }
+    return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+  });
+}
+
+/**
+ * Trim and check a template path
+ */
+function parsePath(path: string, location: string): string {
+  const trimmed = path.trim();
+  if (!PATH_PATTERN.test(trimmed)) {
+    throw new Error(`Invalid template "{{${path}}}" in ${location}`);
+  }
+  return trimmed;
+}
+
+/**
+ * Read a dotted path from the scope through own properties only
+ */
+function resolvePath(path: string, scope: Record<string, any>, location: string): any {
+  let value: any = scope;
+  for (const key of path.split('.')) {
+    if (
+      value === null ||
+      typeof value !== 'object' ||
+      BLOCKED_PROPERTIES.has(key) ||
+      !Object.prototype.hasOwnProperty.call(value, key) ||
+      value[key] === undefined
+    ) {
+      throw new Error(`Unresolved template reference "${path}" in ${location}`);
+    }
+    value = value[key];
+  }
+  return value;
+}
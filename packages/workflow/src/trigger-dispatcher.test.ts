@@ -0,0 +1,207 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  IProvider,
+  OrderStatus,
+  WebhookEventType,
+  WebhookPayload,
+  WorkflowDefinition,
+  WorkflowStepStatus,
+  WorkflowTriggerEvent,
+} from '@oneship/core';
+import { WorkflowEngine } from './workflow-engine';
+import { WorkflowRegistry } from './workflow-registry';
+import { WORKFLOW_TRIGGER_EVENTS, WorkflowTriggerDispatcher, matchesTrigger } from './trigger-dispatcher';
+import { DEFAULT_CREATE_ORDER_WORKFLOW, DEFAULT_FREE_SHIPPING_WORKFLOW } from './workflow-definition';
+
+const provider = {
+  id: 'zto',
+  createOrder: async () => ({ order: { id: 'order-1', provider: 'zto' }, trackingNumber: 'ZT1' }),
+  queryOrder: async () => ({ order: { id: 'order-1', provider: 'zto' }, trackingEvents: [] }),
+  checkFreeShipping: async () => null,
+} as unknown as IProvider;
+
+function payload(event: WebhookEventType, data: any = {}): WebhookPayload {
+  return { event, timestamp: new Date(), data, orderId: 'order-1', provider: 'zto' };
+}
+
+/**
+ * Wait until no execution of the engine is RUNNING
+ */
+async function settle(engine: WorkflowEngine): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    const running = await engine.listExecutions({ status: WorkflowStepStatus.RUNNING });
+    if (running.length === 0) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error('Executions did not finish');
+}
+
+const BUILT_IN_WORKFLOWS = [DEFAULT_CREATE_ORDER_WORKFLOW, DEFAULT_FREE_SHIPPING_WORKFLOW];
+
+describe('WorkflowTriggerDispatcher', () => {
+  it('only dispatches built-in workflows with a valid flow', () => {
+    const engine = new WorkflowEngine(async () => {});
+    for (const workflow of BUILT_IN_WORKFLOWS) {
+      for (const [trigger, events] of Object.entries(WORKFLOW_TRIGGER_EVENTS)) {
+        const event = payload(events[0] as WebhookEventType);
+        if (matchesTrigger(workflow, trigger as WorkflowTriggerEvent, event)) {
+          assert.doesNotThrow(() => engine.validateWorkflow(workflow), `${workflow.id} is started by ${trigger}`);
+        }
+      }
+    }
+  });
+
+  it('never leaves a failed execution of a built-in workflow behind', async () => {
+    const engine = new WorkflowEngine(async () => {}, undefined, undefined, () => new Map([['zto', provider]]));
+    const registry = new WorkflowRegistry();
+    BUILT_IN_WORKFLOWS.forEach((workflow) => registry.registerBuiltIn(workflow));
+    const dispatcher = new WorkflowTriggerDispatcher(engine, registry);
+
+    const events: Array<[WorkflowTriggerEvent, WebhookEventType]> = [
+      ['order_created', WebhookEventType.ORDER_CREATED],
+      ['order_updated', WebhookEventType.ORDER_UPDATED],
+      ['free_shipping_detected', WebhookEventType.FREE_SHIPPING_DETECTED],
+    ];
+    for (const [trigger, event] of events) {
+      await dispatcher.dispatch(trigger, payload(event, { id: 'notification-1', orderId: 'order-1' }));
+    }
+    await settle(engine);
+
+    const failed = await engine.listExecutions({ status: WorkflowStepStatus.FAILED });
+    assert.deepEqual(
+      failed.map((execution) => `${execution.workflowId}: ${execution.error}`),
+      []
+    );
+  });
+
+  it('posts confirmed free shipping to the input webhook URL only when there is one', async () => {
+    const posted: string[] = [];
+    const notifying = {
+      ...provider,
+      checkFreeShipping: async () => ({ id: 'notification-1' }),
+    } as unknown as IProvider;
+    const engine = new WorkflowEngine(
+      async (url) => {
+        posted.push(url);
+      },
+      undefined,
+      undefined,
+      () => new Map([['zto', notifying]])
+    );
+    const registry = new WorkflowRegistry();
+    registry.registerBuiltIn(DEFAULT_FREE_SHIPPING_WORKFLOW);
+    const dispatcher = new WorkflowTriggerDispatcher(engine, registry);
+
+    const [silent] = await dispatcher.dispatch(
+      'free_shipping_detected',
+      payload(WebhookEventType.FREE_SHIPPING_DETECTED, { id: 'notification-1' })
+    );
+    const [notified] = await dispatcher.dispatch(
+      'free_shipping_detected',
+      payload(WebhookEventType.FREE_SHIPPING_DETECTED, { id: 'notification-1', webhookUrl: 'https://erp.example.com' })
+    );
+    await settle(engine);
+
+    for (const started of [silent, notified]) {
+      const execution = await engine.getExecution(started.id);
+      assert.equal(execution?.status, WorkflowStepStatus.SUCCESS, execution?.error);
+    }
+    assert.deepEqual(posted, ['https://erp.example.com']);
+  });
+
+  it('starts matching workflows with the event as context', async () => {
+    const engine = new WorkflowEngine(async () => {});
+    const registry = new WorkflowRegistry();
+    await registry.create({
+      id: 'on-exception',
+      name: 'On Exception',
+      trigger: { event: 'order_updated', statuses: [OrderStatus.EXCEPTION] },
+      steps: [{ id: 'check', name: 'Check', type: 'condition', config: { expression: 'status == "exception"' } }],
+    });
+    const dispatcher = new WorkflowTriggerDispatcher(engine, registry);
+
+    const ignored = await dispatcher.dispatch(
+      'order_updated',
+      payload(WebhookEventType.ORDER_UPDATED, { status: OrderStatus.DELIVERED })
+    );
+    const [started] = await dispatcher.dispatch(
+      'order_updated',
+      payload(WebhookEventType.ORDER_UPDATED, { status: OrderStatus.EXCEPTION })
+    );
+    await settle(engine);
+
+    assert.equal(ignored.length, 0);
+    const execution = await engine.getExecution(started.id);
+    assert.equal(execution?.status, WorkflowStepStatus.SUCCESS);
+    assert.equal(execution?.orderId, 'order-1');
+    assert.deepEqual(execution?.context?.conditions, { check: true });
+  });
+
+  it('passes the order as input for status changes and the transition beside it', async () => {
+    const engine = new WorkflowEngine(async () => {});
+    const registry = new WorkflowRegistry();
+    await registry.create({
+      id: 'on-delivered',
+      name: 'On Delivered',
+      trigger: { event: 'order_updated', statuses: [OrderStatus.DELIVERED] },
+      steps: [
+        {
+          id: 'check',
+          name: 'Check',
+          type: 'condition',
+          config: {
+            expression: 'input.id == "order-1" && status == "delivered" && transition.from == "out_for_delivery"',
+          },
+        },
+      ],
+    });
+    const dispatcher = new WorkflowTriggerDispatcher(engine, registry);
+    const order = { id: 'order-1', status: OrderStatus.DELIVERED };
+
+    const [started] = await dispatcher.dispatch(
+      'order_updated',
+      payload(WebhookEventType.ORDER_STATUS_CHANGED, {
+        order,
+        previousStatus: OrderStatus.OUT_FOR_DELIVERY,
+        status: OrderStatus.DELIVERED,
+        source: 'poll',
+      })
+    );
+    await settle(engine);
+
+    const execution = await engine.getExecution(started.id);
+    assert.deepEqual(execution?.context?.input, order);
+    assert.deepEqual(execution?.context?.transition, {
+      from: OrderStatus.OUT_FOR_DELIVERY,
+      to: OrderStatus.DELIVERED,
+      source: 'poll',
+    });
+    assert.deepEqual(execution?.context?.conditions, { check: true });
+  });
+});
+
+describe('matchesTrigger', () => {
+  const workflow = (trigger: WorkflowDefinition['trigger']): WorkflowDefinition => ({
+    id: 'w',
+    name: 'W',
+    trigger,
+    steps: [],
+  });
+
+  it('never matches manual workflows', () => {
+    for (const trigger of Object.keys(WORKFLOW_TRIGGER_EVENTS) as WorkflowTriggerEvent[]) {
+      assert.equal(matchesTrigger(workflow('manual'), trigger, payload(WebhookEventType.ORDER_CREATED)), false);
+    }
+  });
+
+  it('filters on provider', () => {
+    const zto = workflow({ event: 'order_created', providers: ['zto'] });
+    const sf = workflow({ event: 'order_created', providers: ['sf-express'] });
+    assert.equal(matchesTrigger(zto, 'order_created', payload(WebhookEventType.ORDER_CREATED)), true);
+    assert.equal(matchesTrigger(sf, 'order_created', payload(WebhookEventType.ORDER_CREATED)), false);
+    assert.equal(matchesTrigger(zto, 'order_updated', payload(WebhookEventType.ORDER_UPDATED)), false);
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  OneShipEventEmitter,
+  OrderStatusTransition,
+  WebhookEventType,
+  WebhookPayload,
+  WorkflowDefinition,
+  WorkflowExecution,
+  WorkflowTriggerEvent,
+} from '@oneship/core';
+import { WorkflowEngine } from './workflow-engine';
+import { WorkflowRegistry } from './workflow-registry';
+
+/**
+ * OneShip events that start workflows with each trigger
+ */
+export const WORKFLOW_TRIGGER_EVENTS: Record<Exclude<WorkflowTriggerEvent, 'manual'>, string[]> = {
+  order_created: ['order.created'],
+  order_updated: ['order.updated', 'order.status_changed'],
+  free_shipping_detected: ['free_shipping.detected'],
+};
+
+/**
+ * Starts workflows whose trigger matches events emitted by OneShipEventEmitter
+ *
+ * The latest version of every registered workflow is considered. The event's
+ * order ID and provider become the execution context and its data the input. Order
+ * events always have the order as input, status changes add `transition` to the context.
+ */
+export class WorkflowTriggerDispatcher {
+  constructor(private engine: WorkflowEngine, private registry: WorkflowRegistry) {}
+
+  /**
+   * Listen for trigger events on an emitter
+   */
+  subscribe(emitter: OneShipEventEmitter): void {
+    Object.entries(WORKFLOW_TRIGGER_EVENTS).forEach(([trigger, events]) => {
+      events.forEach((eventName) => {
+        emitter.on(eventName, (payload: WebhookPayload) => {
+          this.dispatch(trigger as WorkflowTriggerEvent, payload).catch((error) => {
+            console.error(`Failed to start workflows for ${payload.event}:`, error);
+          });
+        });
+      });
+    });
+  }
+
+  /**
+   * Start every workflow triggered by an event, returning the started executions
+   */
+  async dispatch(trigger: WorkflowTriggerEvent, payload: WebhookPayload): Promise<WorkflowExecution[]> {
+    const workflows = (await this.registry.list()).filter((workflow) =>
+      matchesTrigger(workflow, trigger, payload)
+    );
+    const executions: WorkflowExecution[] = [];
+
+    for (const workflow of workflows) {
+      // One workflow failing to start must not keep the others from starting
+      try {
+        const execution = await this.engine.execute(workflow, {
+          orderId: payload.orderId,
+          provider: payload.provider,
+          event: payload.event,
+          ...triggerInput(payload),
+        });
+        executions.push(execution);
+      } catch (error) {
+        console.error(`Failed to start workflow ${workflow.id} for ${payload.event}:`, (error as Error).message);
+      }
+    }
+
+    return executions;
+  }
+}
+
+/**
+ * Whether a workflow's trigger and its filters match an event
+ */
+export function matchesTrigger(
+  workflow: WorkflowDefinition,
+  trigger: WorkflowTriggerEvent,
+  payload: WebhookPayload
+): boolean {
+  const definition = typeof workflow.trigger === 'string' ? { event: workflow.trigger } : workflow.trigger;
+  if (definition.event === 'manual' || definition.event !== trigger) {
+    return false;
+  }
+
+  if (definition.providers && (!payload.provider || !definition.providers.includes(payload.provider))) {
+    return false;
+  }
+  if (definition.statuses && !definition.statuses.includes(triggerInput(payload).input?.status)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Workflow input for an event, with the status change split off from the order
+ */
+function triggerInput(payload: WebhookPayload): {
+  input: any;
+  transition?: Omit<OrderStatusTransition, 'at'>;
+} {
+  if (payload.event !== WebhookEventType.ORDER_STATUS_CHANGED) {
+    return { input: payload.data };
+  }
+  const { order, previousStatus, status, source } = payload.data || {};
+  return { input: order, transition: { from: previousStatus, to: status, source } };
+}
@@ -1,32 +1,6 @@
-import { ProviderId } from '@oneship/core';
+import { WorkflowDefinition } from '@oneship/core';
 
-/**
- * Workflow step definition
- */
-export interface WorkflowStepDefinition {
-  id: string;
-  name: string;
-  type: 'create_order' | 'query_order' | 'check_free_shipping' | 'webhook' | 'delay' | 'condition';
-  provider?: ProviderId;
-  config?: Record<string, any>;
-  onSuccess?: string; // Next step ID on success
-  onFailure?: string; // Next step ID on failure
-  retry?: {
-    maxAttempts: number;
-    delay: number; // in milliseconds
-  };
-}
-
-/**
- * Workflow definition
- */
-export interface WorkflowDefinition {
-  id: string;
-  name: string;
-  description?: string;
-  steps: WorkflowStepDefinition[];
-  trigger: 'manual' | 'order_created' | 'order_updated' | 'free_shipping_detected';
-}
+export type { WorkflowDefinition, WorkflowStepDefinition } from '@oneship/core';
 
 /**
  * Default workflow for creating shipping order
@@ -66,6 +40,9 @@ export const DEFAULT_CREATE_ORDER_WORKFLOW: WorkflowDefinition = {
 
 /**
  * Default workflow for checking free shipping
+ *
+ * Confirms the notification with the courier and posts it to the input's `webhookUrl`, if any.
+ * Webhook subscribers already receive the `free_shipping.detected` event that starts it.
  */
 export const DEFAULT_FREE_SHIPPING_WORKFLOW: WorkflowDefinition = {
   id: 'default-free-shipping',
@@ -78,9 +55,19 @@ export const DEFAULT_FREE_SHIPPING_WORKFLOW: WorkflowDefinition = {
       name: 'Check Free Shipping',
       type: 'check_free_shipping',
       config: {},
+      onSuccess: 'step-2',
     },
     {
       id: 'step-2',
+      name: 'Has Webhook URL',
+      type: 'condition',
+      config: {
+        expression: 'exists(webhookUrl)',
+        onTrue: 'step-3',
+      },
+    },
+    {
+      id: 'step-3',
       name: 'Notify Webhook',
       type: 'webhook',
       config: {
@@ -0,0 +1,575 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  IProvider,
+  WorkflowDefinition,
+  WorkflowExecution,
+  WorkflowExecutionRepository,
+  WorkflowStepStatus,
+} from '@oneship/core';
+import { InMemoryRepository } from '@oneship/storage';
+import { WorkflowEngine } from './workflow-engine';
+import { IStepExecutor, StepExecutionContext, StepExecutionResult } from './step-executor';
+import { WorkflowStepDefinition } from './workflow-definition';
+
+/**
+ * Step executor for tests: records every call, fails while `failures[step.id]` is above zero
+ * and waits `config.wait` milliseconds before it finishes
+ */
+class RecordingExecutor implements IStepExecutor {
+  calls: string[] = [];
+  failures: Record<string, number> = {};
+
+  async execute(step: WorkflowStepDefinition): Promise<StepExecutionResult> {
+    this.calls.push(step.id);
+    if (step.config?.wait) {
+      await new Promise((resolve) => setTimeout(resolve, step.config!.wait));
+    }
+    if (this.failures[step.id] > 0) {
+      this.failures[step.id]--;
+      throw new Error(`${step.id} failed`);
+    }
+    return { output: { [step.id]: true, last: step.id }, nextStepId: step.onSuccess };
+  }
+}
+
+/**
+ * Records the step each compensation undoes and the output it was given
+ */
+class UndoExecutor implements IStepExecutor {
+  undone: string[] = [];
+  failing = new Set<string>();
+
+  async execute(step: WorkflowStepDefinition, context: StepExecutionContext): Promise<StepExecutionResult> {
+    this.undone.push(`${step.id}:${context.last}`);
+    if (this.failing.has(step.id)) {
+      throw new Error(`undo ${step.id} failed`);
+    }
+    return { output: {} };
+  }
+}
+
+/**
+ * Engine with the `record` step type that resolves `workflows` for sub-workflow steps
+ * and reads `providers` whenever a step runs
+ */
+function createEngine(
+  workflows: WorkflowDefinition[] = [],
+  executions: WorkflowExecutionRepository = new InMemoryRepository<WorkflowExecution>(),
+  providers: Map<string, IProvider> = new Map()
+): { engine: WorkflowEngine; executor: RecordingExecutor } {
+  const engine = new WorkflowEngine(
+    async () => {},
+    executions,
+    async (workflowId) => workflows.find((workflow) => workflow.id === workflowId),
+    () => providers
+  );
+  const executor = new RecordingExecutor();
+  engine.registerExecutor('record', executor);
+  return { engine, executor };
+}
+
+function step(id: string, onSuccess?: string, config?: Record<string, any>): WorkflowStepDefinition {
+  // Custom step types are registered at runtime, outside the built-in type union
+  return { id, name: id, type: 'record' as WorkflowStepDefinition['type'], onSuccess, config };
+}
+
+function undoable(id: string, onSuccess?: string, config?: Record<string, any>): WorkflowStepDefinition {
+  return { ...step(id, onSuccess, config), compensate: { type: 'undo' as WorkflowStepDefinition['type'] } };
+}
+
+function fanOut(mode: 'all' | 'any'): WorkflowDefinition {
+  return {
+    id: `fan-out-${mode}`,
+    name: 'Fan Out',
+    trigger: 'manual',
+    steps: [
+      { id: 'fork', name: 'Fork', type: 'parallel', config: { branches: ['erp', 'wms'] }, onSuccess: 'join' },
+      step('erp', 'erp-ack', { wait: 20 }),
+      step('erp-ack', 'join'),
+      step('wms', 'join'),
+      { id: 'join', name: 'Join', type: 'join', config: { mode }, onSuccess: 'done' },
+      step('done'),
+    ],
+  };
+}
+
+async function run(engine: WorkflowEngine, workflow: WorkflowDefinition): Promise<WorkflowExecution> {
+  const execution = await engine.executeAndWait(workflow, { input: {} });
+  return (await engine.getExecution(execution.id))!;
+}
+
+/**
+ * Wait until an execution is no longer RUNNING
+ */
+async function waitFor(engine: WorkflowEngine, executionId: string): Promise<void> {
+  for (let i = 0; i < 200; i++) {
+    if ((await engine.getExecution(executionId))?.status !== WorkflowStepStatus.RUNNING) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  throw new Error(`Execution ${executionId} did not finish`);
+}
+
+describe('parallel branches', () => {
+  it('runs every branch to the join step and merges their outputs', async () => {
+    const { engine, executor } = createEngine();
+    const execution = await run(engine, fanOut('all'));
+
+    assert.equal(execution.status, WorkflowStepStatus.SUCCESS);
+    assert.deepEqual([...executor.calls].sort(), ['done', 'erp', 'erp-ack', 'wms']);
+    assert.equal(executor.calls.indexOf('wms') < executor.calls.indexOf('erp-ack'), true);
+    assert.equal(execution.context?.['erp-ack'], true);
+    assert.equal(execution.context?.wms, true);
+    assert.deepEqual(
+      execution.steps.filter((s) => s.branch).map((s) => `${s.branch}:${s.id}`).sort(),
+      ['erp:erp', 'erp:erp-ack', 'wms:wms']
+    );
+  });
+
+  it('fails an all-join when one branch fails', async () => {
+    const { engine, executor } = createEngine();
+    executor.failures.wms = 1;
+    const execution = await run(engine, fanOut('all'));
+
+    assert.equal(execution.status, WorkflowStepStatus.FAILED);
+    assert.match(execution.error!, /Parallel branches failed: wms: wms failed/);
+    assert.equal(executor.calls.includes('done'), false);
+  });
+
+  it('continues an any-join when one branch succeeds', async () => {
+    const { engine, executor } = createEngine();
+    executor.failures.erp = 1;
+    const execution = await run(engine, fanOut('any'));
+
+    assert.equal(execution.status, WorkflowStepStatus.SUCCESS);
+    assert.equal(execution.context?.wms, true);
+    assert.equal(execution.context?.erp, undefined);
+    assert.equal(execution.context?.branches.erp.status, WorkflowStepStatus.FAILED);
+    assert.equal(executor.calls.includes('done'), true);
+  });
+
+  it('fails an any-join when every branch fails', async () => {
+    const { engine, executor } = createEngine();
+    executor.failures.erp = 1;
+    executor.failures.wms = 1;
+    const execution = await run(engine, fanOut('any'));
+
+    assert.equal(execution.status, WorkflowStepStatus.FAILED);
+    assert.match(execution.error!, /erp: erp failed; wms: wms failed/);
+  });
+});
+
+describe('listExecutions', () => {
+  it('filters by workflow, order, status and start time, most recent first', async () => {
+    const { engine, executor } = createEngine();
+    const sequence: WorkflowDefinition = {
+      id: 'sequence',
+      name: 'Sequence',
+      trigger: 'manual',
+      steps: [step('first', 'second'), step('second')],
+    };
+    // Executions started in the same millisecond have no defined order
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+    const first = await engine.executeAndWait(sequence, { input: {}, orderId: 'order-1' });
+    await tick();
+    const between = new Date();
+    await tick();
+    executor.failures.second = 1;
+    const second = await engine.executeAndWait(sequence, { input: {}, orderId: 'order-2' });
+    await tick();
+    const other = await engine.executeAndWait(fanOut('all'), { input: {} });
+
+    const ids = async (filter: Parameters<WorkflowEngine['listExecutions']>[0]) =>
+      (await engine.listExecutions(filter)).map((execution) => execution.id);
+    assert.deepEqual(await ids({ workflowId: 'sequence' }), [second.id, first.id]);
+    assert.deepEqual(await ids({ orderId: 'order-1' }), [first.id]);
+    assert.deepEqual(await ids({ status: WorkflowStepStatus.FAILED }), [second.id]);
+    assert.deepEqual(await ids({ startedAfter: between }), [other.id, second.id]);
+    assert.deepEqual(await ids({ workflowId: 'sequence', startedBefore: between }), [first.id]);
+  });
+});
+
+describe('cancel', () => {
+  it('stops a running execution before its next step', async () => {
+    const { engine, executor } = createEngine();
+    const execution = await engine.execute(
+      { id: 'slow', name: 'Slow', trigger: 'manual', steps: [step('slow', 'next', { wait: 30 }), step('next')] },
+      { input: {} }
+    );
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const cancelled = await engine.cancel(execution.id);
+    assert.equal(cancelled.status, WorkflowStepStatus.CANCELLED);
+    assert.equal(cancelled.currentStepId, undefined);
+    assert.deepEqual(executor.calls, ['slow']);
+    assert.deepEqual(cancelled.steps.map((s) => [s.id, s.status]), [['slow', WorkflowStepStatus.SUCCESS]]);
+  });
+
+  it('cancels an execution waiting on a delay step without waking it up', async () => {
+    const { engine, executor } = createEngine();
+    const execution = await engine.executeAndWait(
+      {
+        id: 'delayed',
+        name: 'Delayed',
+        trigger: 'manual',
+        steps: [{ id: 'wait', name: 'Wait', type: 'delay', config: { delay: 20 }, onSuccess: 'next' }, step('next')],
+      },
+      { input: {} }
+    );
+
+    assert.equal((await engine.cancel(execution.id)).status, WorkflowStepStatus.CANCELLED);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    assert.deepEqual(executor.calls, []);
+    assert.equal((await engine.getExecution(execution.id))?.wakeUpAt, undefined);
+  });
+
+  it('only cancels running executions', async () => {
+    const { engine } = createEngine();
+    const execution = await run(engine, fanOut('all'));
+    await assert.rejects(engine.cancel(execution.id), /is success and cannot be cancelled/);
+    await assert.rejects(engine.cancel('missing'), /Execution missing not found/);
+  });
+});
+
+describe('rerun', () => {
+  it('re-runs only the failed branch from its failed step', async () => {
+    const { engine, executor } = createEngine();
+    executor.failures['erp-ack'] = 1;
+    const failed = await run(engine, fanOut('all'));
+    assert.equal(failed.status, WorkflowStepStatus.FAILED);
+
+    executor.calls = [];
+    await engine.rerun(failed.id);
+    await waitFor(engine, failed.id);
+    const execution = (await engine.getExecution(failed.id))!;
+
+    assert.equal(execution.status, WorkflowStepStatus.SUCCESS);
+    assert.deepEqual(executor.calls, ['erp-ack', 'done']);
+    assert.equal(execution.context?.wms, true);
+    assert.equal(execution.context?.['erp-ack'], true);
+  });
+
+  it('re-runs a failed step without repeating the steps before it', async () => {
+    const { engine, executor } = createEngine();
+    executor.failures.second = 1;
+    const failed = await run(engine, {
+      id: 'sequence',
+      name: 'Sequence',
+      trigger: 'manual',
+      steps: [step('first', 'second'), step('second', 'third'), step('third')],
+    });
+
+    executor.calls = [];
+    await engine.rerun(failed.id);
+    await waitFor(engine, failed.id);
+
+    assert.equal((await engine.getExecution(failed.id))?.status, WorkflowStepStatus.SUCCESS);
+    assert.deepEqual(executor.calls, ['second', 'third']);
+  });
+
+  it('only re-runs failed executions', async () => {
+    const { engine } = createEngine();
+    const execution = await run(engine, fanOut('all'));
+    await assert.rejects(engine.rerun(execution.id), /only failed executions can be re-run/);
+    await assert.rejects(engine.rerun('missing'), /Execution missing not found/);
+  });
+});
+
+describe('compensation', () => {
+  function compensated(failAt: string): { engine: WorkflowEngine; undo: UndoExecutor; workflow: WorkflowDefinition } {
+    const { engine, executor } = createEngine();
+    const undo = new UndoExecutor();
+    engine.registerExecutor('undo', undo);
+    executor.failures[failAt] = 1;
+    const workflow: WorkflowDefinition = {
+      id: 'compensated',
+      name: 'Compensated',
+      trigger: 'manual',
+      steps: [undoable('book', 'log'), step('log', 'reserve'), undoable('reserve', 'notify'), step('notify')],
+    };
+    return { engine, undo, workflow };
+  }
+
+  it('undoes completed steps from the most recent back, each with its own output', async () => {
+    const { engine, undo, workflow } = compensated('notify');
+    const execution = await run(engine, workflow);
+
+    assert.equal(execution.status, WorkflowStepStatus.FAILED);
+    assert.equal(execution.error, 'notify failed');
+    assert.deepEqual(undo.undone, ['reserve:reserve', 'book:book']);
+    assert.deepEqual(
+      execution.steps.filter((s) => s.compensation).map((s) => `${s.id}:${s.status}`),
+      ['reserve:success', 'book:success']
+    );
+  });
+
+  it('does not undo the failed step or steps that never ran', async () => {
+    const { engine, undo, workflow } = compensated('reserve');
+    await run(engine, workflow);
+
+    assert.deepEqual(undo.undone, ['book:book']);
+  });
+
+  it('runs every compensation when one fails and keeps the original error', async () => {
+    const { engine, undo, workflow } = compensated('notify');
+    undo.failing.add('reserve');
+    const execution = await run(engine, workflow);
+
+    assert.deepEqual(undo.undone, ['reserve:reserve', 'book:book']);
+    assert.equal(execution.error, 'notify failed');
+    assert.deepEqual(
+      execution.steps.filter((s) => s.compensation).map((s) => `${s.id}:${s.status}`),
+      ['reserve:failed', 'book:success']
+    );
+  });
+
+  it('does not re-run compensated executions', async () => {
+    const { engine, workflow } = compensated('notify');
+    const execution = await run(engine, workflow);
+
+    await assert.rejects(engine.rerun(execution.id), /was compensated and cannot be re-run/);
+  });
+});
+
+describe('step timeouts', () => {
+  it('does not retry a timed out step unless its policy lists timeouts', async () => {
+    const { engine, executor } = createEngine();
+    const timed = (retryOn?: string[]): WorkflowDefinition => ({
+      id: 'timed',
+      name: 'Timed',
+      trigger: 'manual',
+      steps: [{ ...step('slow', undefined, { wait: 30 }), timeout: 5, retry: { maxAttempts: 3, delay: 0, retryOn } }],
+    });
+
+    const execution = await run(engine, timed());
+    assert.equal(execution.status, WorkflowStepStatus.FAILED);
+    assert.equal(execution.error, 'Step slow timed out after 5ms');
+    assert.deepEqual(executor.calls, ['slow']);
+
+    executor.calls = [];
+    await run(engine, timed(['TimeoutError']));
+    assert.deepEqual(executor.calls, ['slow', 'slow', 'slow']);
+  });
+
+  it('undoes the late result of a timed out step once the execution failed', async () => {
+    const { engine } = createEngine();
+    const undo = new UndoExecutor();
+    engine.registerExecutor('undo', undo);
+    const execution = await run(engine, {
+      id: 'late',
+      name: 'Late',
+      trigger: 'manual',
+      steps: [{ ...undoable('book', undefined, { wait: 30 }), timeout: 5 }],
+    });
+    assert.equal(execution.status, WorkflowStepStatus.FAILED);
+    assert.deepEqual(undo.undone, []);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    const settled = (await engine.getExecution(execution.id))!;
+    assert.deepEqual(undo.undone, ['book:book']);
+    assert.equal(settled.steps[0].attempts?.[0].timedOut, true);
+    assert.deepEqual(settled.steps[0].attempts?.[0].lateOutput, { book: true, last: 'book' });
+    assert.equal(settled.steps.some((s) => s.compensation && s.id === 'book'), true);
+  });
+});
+
+describe('sub-workflows', () => {
+  function parent(id: string, childId: string): WorkflowDefinition {
+    return {
+      id,
+      name: id,
+      trigger: 'manual',
+      steps: [
+        { id: 'child', name: 'Child', type: 'sub_workflow', config: { workflowId: childId }, onSuccess: `${id}-done` },
+        step(`${id}-done`),
+      ],
+    };
+  }
+
+  it('fails workflows that start themselves, directly or through another workflow', async () => {
+    const workflows = [parent('loop', 'loop'), parent('outer', 'inner'), parent('inner', 'outer')];
+    const { engine } = createEngine(workflows);
+
+    const direct = await run(engine, workflows[0]);
+    assert.equal(direct.status, WorkflowStepStatus.FAILED);
+    assert.match(direct.error!, /Workflow loop cannot run inside itself/);
+
+    const indirect = await run(engine, workflows[1]);
+    assert.equal(indirect.status, WorkflowStepStatus.FAILED);
+    assert.match(indirect.error!, /Workflow outer cannot run inside itself/);
+  });
+
+  it('picks up the running child instead of starting another after a restart', async () => {
+    const slow: WorkflowDefinition = {
+      id: 'slow',
+      name: 'Slow',
+      trigger: 'manual',
+      steps: [
+        { id: 'wait', name: 'Wait', type: 'delay', config: { delay: 50 }, onSuccess: 'slow-done' },
+        step('slow-done'),
+      ],
+    };
+    const workflows = [slow, parent('outer', 'slow')];
+    const executions = new InMemoryRepository<WorkflowExecution>();
+
+    const before = createEngine(workflows, executions);
+    const started = await before.engine.execute(workflows[1], { input: {} });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    before.engine.stop();
+
+    const after = createEngine(workflows, executions);
+    await after.engine.recover();
+    await waitFor(after.engine, started.id);
+
+    assert.equal((await after.engine.getExecution(started.id))?.status, WorkflowStepStatus.SUCCESS);
+    assert.deepEqual(after.executor.calls, ['slow-done', 'outer-done']);
+    const children = await after.engine.listExecutions({ workflowId: 'slow' });
+    assert.equal(children.length, 1);
+    assert.equal(children[0].parentExecutionId, started.id);
+  });
+});
+
+describe('recover', () => {
+  it('finds providers configured after a suspended execution was resumed', async () => {
+    const workflow: WorkflowDefinition = {
+      id: 'book-later',
+      name: 'Book Later',
+      trigger: 'manual',
+      steps: [
+        { id: 'wait', name: 'Wait', type: 'delay', config: { delay: 30 }, onSuccess: 'book' },
+        { id: 'book', name: 'Book', type: 'create_order', provider: 'zto' },
+      ],
+    };
+    const executions = new InMemoryRepository<WorkflowExecution>();
+
+    const before = createEngine([workflow], executions);
+    const started = await before.engine.execute(workflow, { input: {} });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    before.engine.stop();
+
+    // Providers are configured through the API after startup has resumed the execution
+    const providers = new Map<string, IProvider>();
+    const after = createEngine([workflow], executions, providers);
+    assert.deepEqual((await after.engine.recover()).map((execution) => execution.id), [started.id]);
+    providers.set('zto', {
+      id: 'zto',
+      createOrder: async () => ({ order: { id: 'order-1', provider: 'zto' }, trackingNumber: 'ZT1' }),
+    } as unknown as IProvider);
+    await waitFor(after.engine, started.id);
+
+    const execution = (await after.engine.getExecution(started.id))!;
+    assert.equal(execution.status, WorkflowStepStatus.SUCCESS, execution.error);
+    assert.equal(execution.context?.trackingNumber, 'ZT1');
+    assert.equal(execution.orderId, 'order-1');
+  });
+});
+
+describe('condition steps', () => {
+  const workflow: WorkflowDefinition = {
+    id: 'heavy-guangdong',
+    name: 'Heavy Guangdong',
+    trigger: 'manual',
+    steps: [
+      {
+        id: 'check',
+        name: 'Check',
+        type: 'condition',
+        config: { expression: 'order.to.province == "广东" && items.weight > 5', onTrue: 'heavy', onFalse: 'light' },
+      },
+      step('heavy'),
+      step('light'),
+    ],
+  };
+
+  it('branches on a list field compared with a single value', async () => {
+    const { engine, executor } = createEngine();
+    const order = { to: { province: '广东' } };
+
+    const heavy = await engine.executeAndWait(workflow, { input: { order, items: [{ weight: 2 }, { weight: 7 }] } });
+    const light = await engine.executeAndWait(workflow, { input: { order, items: [{ weight: 2 }, { weight: 3 }] } });
+
+    assert.equal(heavy.status, WorkflowStepStatus.SUCCESS, heavy.error);
+    assert.equal(light.status, WorkflowStepStatus.SUCCESS, light.error);
+    assert.deepEqual(executor.calls, ['heavy', 'light']);
+  });
+});
+
+/**
+ * Records the config every step ran with and returns `config.output` as its output
+ */
+class CapturingExecutor implements IStepExecutor {
+  configs: Record<string, any> = {};
+
+  async execute(step: WorkflowStepDefinition): Promise<StepExecutionResult> {
+    this.configs[step.id] = step.config;
+    return { output: step.config?.output ?? {}, nextStepId: step.onSuccess };
+  }
+}
+
+describe('templates', () => {
+  function capture(id: string, config: Record<string, any>, onSuccess?: string): WorkflowStepDefinition {
+    return { id, name: id, type: 'capture' as WorkflowStepDefinition['type'], config, onSuccess };
+  }
+
+  function templated(config: Record<string, any>): WorkflowDefinition {
+    return {
+      id: 'templated',
+      name: 'Templated',
+      trigger: 'manual',
+      steps: [
+        capture('book', { output: { trackingNumber: 'ZT1', weight: 3, parcel: { length: 10 } } }, 'notify'),
+        capture('notify', config),
+      ],
+    };
+  }
+
+  async function runTemplated(config: Record<string, any>): Promise<[WorkflowExecution, CapturingExecutor]> {
+    const { engine } = createEngine();
+    const executor = new CapturingExecutor();
+    engine.registerExecutor('capture', executor);
+    const execution = await engine.executeAndWait(templated(config), {
+      orderId: 'order-1',
+      input: { to: { province: '广东' } },
+    });
+    return [(await engine.getExecution(execution.id))!, executor];
+  }
+
+  it('renders references to earlier step outputs, the input and the context', async () => {
+    const [execution, executor] = await runTemplated({
+      message: 'Booked {{ steps.book.output.trackingNumber }} for {{ orderId }} to {{ to.province }}',
+      url: 'https://erp.example.com/orders/{{orderId}}',
+    });
+
+    assert.equal(execution.status, WorkflowStepStatus.SUCCESS, execution.error);
+    assert.deepEqual(executor.configs.notify, {
+      message: 'Booked ZT1 for order-1 to 广东',
+      url: 'https://erp.example.com/orders/order-1',
+    });
+  });
+
+  it('keeps the type of a value that is a whole template and writes objects inside text as JSON', async () => {
+    const [execution, executor] = await runTemplated({
+      weight: '{{ steps.book.output.weight }}',
+      parcel: '{{ steps.book.output.parcel }}',
+      note: ['Weight {{ steps.book.output.weight }}', 'Parcel {{ steps.book.output.parcel }}'],
+    });
+
+    assert.equal(execution.status, WorkflowStepStatus.SUCCESS, execution.error);
+    assert.deepEqual(executor.configs.notify, {
+      weight: 3,
+      parcel: { length: 10 },
+      note: ['Weight 3', 'Parcel {"length":10}'],
+    });
+  });
+
+  it('fails the step that references a missing path without running it', async () => {
+    const [execution, executor] = await runTemplated({ reference: '{{ steps.book.output.waybill }}' });
+
+    assert.equal(execution.status, WorkflowStepStatus.FAILED);
+    assert.match(execution.error!, /Unresolved template reference "steps\.book\.output\.waybill" in config\.reference/);
+    assert.equal(execution.steps.find((s) => s.id === 'notify')?.status, WorkflowStepStatus.FAILED);
+    assert.deepEqual(Object.keys(executor.configs), ['book']);
+  });
+});
@@ -1,30 +1,72 @@
 import {
   WorkflowExecution,
   WorkflowStep,
+  WorkflowStepAttempt,
   WorkflowStepStatus,
+  WorkflowBranch,
+  WorkflowExecutionFilter,
+  WorkflowExecutionRepository,
   IProvider,
 } from '@oneship/core';
+import { InMemoryRepository } from '@oneship/storage';
 import { WorkflowDefinition, WorkflowStepDefinition } from './workflow-definition';
+import { validateWorkflowDefinition } from './workflow-validation';
+import { renderTemplates } from './template';
+import { STEP_TIMEOUT_ERROR, isRetryable, retryDelay, withTimeout } from './retry-policy';
 import {
   StepExecutionContext,
+  StepExecutionResult,
   IStepExecutor,
   CreateOrderStepExecutor,
   QueryOrderStepExecutor,
+  CancelOrderStepExecutor,
   CheckFreeShippingStepExecutor,
   WebhookStepExecutor,
   DelayStepExecutor,
+  ConditionStepExecutor,
+  JoinStepExecutor,
+  SubWorkflowStepExecutor,
+  SubWorkflowRequest,
 } from './step-executor';
 
 /**
  * Workflow engine for executing workflows asynchronously
+ *
+ * Executions are checkpointed to the execution repository after every step,
+ * so a restarted engine can resume RUNNING executions from the last completed
+ * step via `recover()`. Executions are pinned to the workflow version they
+ * started with; `resolveWorkflow` loads versions that were not run since startup.
+ * `getProviders` returns the configured providers whenever a step runs, so
+ * executions resumed before providers are configured find them once they are.
+ * When an execution fails, the `compensate` actions of its successful steps run
+ * in reverse order. Sub-workflow steps run other workflows as child executions
+ * linked to their parent.
  */
 export class WorkflowEngine {
   private stepExecutors: Map<string, IStepExecutor> = new Map();
-  private executions: Map<string, WorkflowExecution> = new Map();
+  private workflows: Map<string, WorkflowDefinition> = new Map();
+  private executions: WorkflowExecutionRepository;
+  private runs: Map<string, Promise<void>> = new Map();
+  private wakeUpTimers: Map<string, NodeJS.Timeout> = new Map();
+  private cancelled: Set<string> = new Set();
+  private completionWaiters: Map<
+    string,
+    Array<{ parentExecutionId?: string; resolve: (execution: WorkflowExecution) => void }>
+  > = new Map();
   private webhookCaller: (url: string, payload: any) => Promise<void>;
+  private resolveWorkflow?: (workflowId: string, version?: number) => Promise<WorkflowDefinition | undefined>;
+  private getProviders: () => Map<string, IProvider>;
 
-  constructor(webhookCaller: (url: string, payload: any) => Promise<void>) {
+  constructor(
+    webhookCaller: (url: string, payload: any) => Promise<void>,
+    executions: WorkflowExecutionRepository = new InMemoryRepository(),
+    resolveWorkflow?: (workflowId: string, version?: number) => Promise<WorkflowDefinition | undefined>,
+    getProviders: () => Map<string, IProvider> = () => new Map()
+  ) {
     this.webhookCaller = webhookCaller;
+    this.executions = executions;
+    this.resolveWorkflow = resolveWorkflow;
+    this.getProviders = getProviders;
     this.registerDefaultExecutors();
   }
 
@@ -34,9 +76,16 @@ export class WorkflowEngine {
   private registerDefaultExecutors(): void {
     this.registerExecutor('create_order', new CreateOrderStepExecutor());
     this.registerExecutor('query_order', new QueryOrderStepExecutor());
+    this.registerExecutor('cancel_order', new CancelOrderStepExecutor());
     this.registerExecutor('check_free_shipping', new CheckFreeShippingStepExecutor());
     this.registerExecutor('webhook', new WebhookStepExecutor(this.webhookCaller));
     this.registerExecutor('delay', new DelayStepExecutor());
+    this.registerExecutor('condition', new ConditionStepExecutor());
+    this.registerExecutor('join', new JoinStepExecutor());
+    this.registerExecutor(
+      'sub_workflow',
+      new SubWorkflowStepExecutor((request) => this.runChild(request))
+    );
   }
 
   /**
@@ -46,60 +95,265 @@ export class WorkflowEngine {
     this.stepExecutors.set(stepType, executor);
   }
 
+  /**
+   * Register a workflow definition so its executions can be resumed
+   */
+  registerWorkflow(workflow: WorkflowDefinition): void {
+    this.workflows.set(this.workflowKey(workflow.id, workflow.version), workflow);
+  }
+
+  /**
+   * Check that a workflow definition is well formed and only uses registered step types
+   */
+  validateWorkflow(workflow: unknown): asserts workflow is WorkflowDefinition {
+    // Parallel steps are run by the engine itself rather than by an executor
+    validateWorkflowDefinition(workflow, [...Array.from(this.stepExecutors.keys()), 'parallel']);
+  }
+
   /**
    * Execute a workflow
    */
   async execute(
     workflow: WorkflowDefinition,
     context: StepExecutionContext,
-    providers: Map<string, IProvider>
+    parent?: Pick<WorkflowExecution, 'parentExecutionId' | 'parentStepId'>
   ): Promise<WorkflowExecution> {
+    this.registerWorkflow(workflow);
+
     const execution: WorkflowExecution = {
       id: this.generateExecutionId(),
       workflowId: workflow.id,
+      workflowVersion: workflow.version,
+      parentExecutionId: parent?.parentExecutionId,
+      parentStepId: parent?.parentStepId,
       orderId: context.orderId,
       status: WorkflowStepStatus.RUNNING,
       steps: [],
+      currentStepId: workflow.steps[0]?.id,
+      context: { ...context },
+      attempts: {},
       startedAt: new Date(),
     };
 
-    this.executions.set(execution.id, execution);
+    await this.executions.save(execution);
 
     // Execute workflow asynchronously
-    this.executeWorkflowAsync(workflow, execution, context, providers).catch((error) => {
-      execution.status = WorkflowStepStatus.FAILED;
-      execution.error = error.message;
-      execution.completedAt = new Date();
-    });
+    this.startRun(workflow, execution);
 
     return execution;
   }
 
   /**
-   * Execute workflow asynchronously
+   * Execute a workflow and wait until it completes or suspends on a delay step
    */
-  private async executeWorkflowAsync(
-    workflow: WorkflowDefinition,
-    execution: WorkflowExecution,
-    initialContext: StepExecutionContext,
-    providers: Map<string, IProvider>
-  ): Promise<void> {
-    const context = { ...initialContext };
-    let currentStepId: string | undefined = workflow.steps[0]?.id;
+  async executeAndWait(workflow: WorkflowDefinition, context: StepExecutionContext): Promise<WorkflowExecution> {
+    const execution = await this.execute(workflow, context);
+    await this.runs.get(execution.id);
+    return execution;
+  }
 
-    while (currentStepId) {
-      const stepDef = workflow.steps.find((s) => s.id === currentStepId);
-      if (!stepDef) {
-        break;
+  /**
+   * Resume RUNNING executions from their last checkpoint, typically on startup
+   *
+   * Executions this engine is already running or waiting to wake up are left alone.
+   */
+  async recover(): Promise<WorkflowExecution[]> {
+    const running = await this.executions.findAll(
+      (execution) =>
+        execution.status === WorkflowStepStatus.RUNNING &&
+        !this.runs.has(execution.id) &&
+        !this.wakeUpTimers.has(execution.id)
+    );
+
+    for (const execution of running) {
+      const workflow = await this.loadWorkflow(execution);
+      if (!workflow) {
+        await this.failExecution(execution, `Workflow ${execution.workflowId} is not registered`);
+        continue;
+      }
+
+      // Attempts in flight when the engine stopped never finished, so run them again
+      const inFlight = [
+        execution.currentStepId,
+        ...Object.values(execution.branches || {}).map((branch) => branch.currentStepId),
+      ];
+      inFlight.forEach((stepId) => {
+        if (stepId && execution.attempts?.[stepId]) {
+          execution.attempts[stepId]--;
+        }
+      });
+
+      if (execution.wakeUpAt && execution.wakeUpAt.getTime() > Date.now()) {
+        this.scheduleWakeUp(workflow, execution);
+      } else {
+        this.startRun(workflow, execution);
       }
+    }
+
+    return running;
+  }
+
+  /**
+   * Cancel a running execution
+   *
+   * A step that is already running finishes first, the execution stops before the next step.
+   * Child executions the execution is waiting on are cancelled with it.
+   */
+  async cancel(executionId: string): Promise<WorkflowExecution> {
+    const execution = await this.executions.findById(executionId);
+    if (!execution) {
+      throw new Error(`Execution ${executionId} not found`);
+    }
+    if (execution.status !== WorkflowStepStatus.RUNNING) {
+      throw new Error(`Execution ${executionId} is ${execution.status} and cannot be cancelled`);
+    }
+
+    const timer = this.wakeUpTimers.get(executionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.wakeUpTimers.delete(executionId);
+    }
+
+    const run = this.runs.get(executionId);
+    if (run) {
+      this.cancelled.add(executionId);
+      await this.cancelAwaitedChildren(executionId);
+      await run;
+      return (await this.executions.findById(executionId)) || execution;
+    }
+
+    // Waiting on a delay step or left over from a previous process, nothing is running
+    execution.status = WorkflowStepStatus.CANCELLED;
+    execution.currentStepId = undefined;
+    execution.wakeUpAt = undefined;
+    execution.completedAt = new Date();
+    await this.executions.save(execution);
+    this.notifyCompleted(execution);
+    return execution;
+  }
+
+  /**
+   * Re-run a failed execution from the step that failed
+   *
+   * Steps that succeeded are not run again. When a join failed because of its
+   * branches, only the failed branches are re-run from their failed step.
+   * Executions whose steps were compensated cannot be re-run.
+   */
+  async rerun(executionId: string): Promise<WorkflowExecution> {
+    const execution = await this.executions.findById(executionId);
+    if (!execution) {
+      throw new Error(`Execution ${executionId} not found`);
+    }
+    if (execution.status !== WorkflowStepStatus.FAILED) {
+      throw new Error(`Execution ${executionId} is ${execution.status}, only failed executions can be re-run`);
+    }
+    if (execution.steps.some((step) => step.compensation)) {
+      throw new Error(`Execution ${executionId} was compensated and cannot be re-run`);
+    }
+
+    const workflow = await this.loadWorkflow(execution);
+    if (!workflow) {
+      throw new Error(`Workflow ${execution.workflowId} is not registered`);
+    }
+
+    const failedStep = [...execution.steps]
+      .reverse()
+      .find((step) => step.status === WorkflowStepStatus.FAILED && !step.branch);
+    if (!failedStep) {
+      throw new Error(`Execution ${executionId} has no failed step to re-run from`);
+    }
+    const stepDef = this.findStep(workflow, failedStep.id);
+    execution.currentStepId = stepDef.id;
+
+    const parallel = workflow.steps.find((s) => s.type === 'parallel' && s.onSuccess === stepDef.id);
+    const branches = execution.context?.branches as Record<string, WorkflowBranch> | undefined;
+    if (stepDef.type === 'join' && parallel && branches) {
+      Object.entries(branches).forEach(([branchId, branch]) => {
+        if (branch.status === WorkflowStepStatus.SUCCESS) {
+          return;
+        }
+        const lastStep = [...execution.steps].reverse().find((step) => step.branch === branchId);
+        branch.currentStepId = lastStep?.status === WorkflowStepStatus.FAILED ? lastStep.id : branchId;
+        branch.status = WorkflowStepStatus.RUNNING;
+        branch.error = undefined;
+      });
+      execution.branches = branches;
+      delete execution.context!.branches;
+      execution.currentStepId = parallel.id;
+    }
+
+    execution.status = WorkflowStepStatus.RUNNING;
+    execution.attempts = {};
+    execution.error = undefined;
+    execution.completedAt = undefined;
+    await this.executions.save(execution);
+
+    this.startRun(workflow, execution);
+    return execution;
+  }
 
-      const step = await this.executeStep(stepDef, context, providers, execution);
+  /**
+   * Stop all pending delay timers, executions stay RUNNING and resume on the next recover()
+   */
+  stop(): void {
+    this.wakeUpTimers.forEach((timer) => clearTimeout(timer));
+    this.wakeUpTimers.clear();
+  }
+
+  /**
+   * Run an execution in the background and track it until it settles
+   */
+  private startRun(workflow: WorkflowDefinition, execution: WorkflowExecution): void {
+    const run = this.executeWorkflowAsync(workflow, execution)
+      .catch((error) => this.failExecution(execution, error.message, workflow))
+      .finally(() => {
+        this.runs.delete(execution.id);
+        this.cancelled.delete(execution.id);
+      });
+
+    this.runs.set(execution.id, run);
+  }
+
+  /**
+   * Resume an execution once its persisted wake-up time is reached
+   */
+  private scheduleWakeUp(workflow: WorkflowDefinition, execution: WorkflowExecution): void {
+    const delay = Math.max(0, (execution.wakeUpAt?.getTime() || 0) - Date.now());
+    const timer = setTimeout(() => {
+      this.wakeUpTimers.delete(execution.id);
+      this.startRun(workflow, execution);
+    }, delay);
+
+    this.wakeUpTimers.set(execution.id, timer);
+  }
+
+  /**
+   * Execute workflow asynchronously from the execution's checkpoint
+   */
+  private async executeWorkflowAsync(workflow: WorkflowDefinition, execution: WorkflowExecution): Promise<void> {
+    const context: StepExecutionContext = execution.context || {};
+    execution.context = context;
+    execution.attempts = execution.attempts || {};
+    execution.wakeUpAt = undefined;
+
+    while (execution.currentStepId && !this.cancelled.has(execution.id)) {
+      const stepDef = this.findStep(workflow, execution.currentStepId);
+
+      if (stepDef.type === 'parallel') {
+        // The join step after the branches decides whether the execution goes on
+        await this.executeParallel(workflow, stepDef, context, execution);
+        execution.currentStepId = stepDef.onSuccess;
+        await this.executions.save(execution);
+        continue;
+      }
+
+      const { step, result } = await this.executeStep(stepDef, context, execution);
       execution.steps.push(step);
 
       if (step.status === WorkflowStepStatus.FAILED) {
         execution.status = WorkflowStepStatus.FAILED;
         execution.error = step.error;
-        execution.completedAt = new Date();
+        execution.currentStepId = undefined;
         break;
       }
 
@@ -108,20 +362,181 @@ export class WorkflowEngine {
         Object.assign(context, step.output);
       }
 
-      // Determine next step
-      if (step.status === WorkflowStepStatus.SUCCESS) {
-        currentStepId = stepDef.onSuccess;
-      } else if (step.status === WorkflowStepStatus.FAILED) {
-        currentStepId = stepDef.onFailure;
-      } else {
-        break;
+      // Executions that create an order can be found by that order
+      if (!execution.orderId && step.output?.order?.id) {
+        execution.orderId = step.output.order.id;
       }
+
+      // Checkpoint before moving on so a restart resumes from the next step. Executors pick
+      // the next step, e.g. a condition branch, and fall back to onSuccess when they do not
+      delete execution.attempts[stepDef.id];
+      execution.currentStepId =
+        result && 'nextStepId' in result ? result.nextStepId : stepDef.onSuccess;
+
+      if (result?.waitUntil && execution.currentStepId && !this.cancelled.has(execution.id)) {
+        execution.wakeUpAt = result.waitUntil;
+        await this.executions.save(execution);
+        this.scheduleWakeUp(workflow, execution);
+        return;
+      }
+
+      await this.executions.save(execution);
     }
 
-    if (execution.status === WorkflowStepStatus.RUNNING) {
+    if (this.cancelled.delete(execution.id)) {
+      execution.status = WorkflowStepStatus.CANCELLED;
+      execution.error = undefined;
+      execution.currentStepId = undefined;
+    } else if (execution.status === WorkflowStepStatus.RUNNING) {
       execution.status = WorkflowStepStatus.SUCCESS;
+    } else if (execution.status === WorkflowStepStatus.FAILED) {
+      await this.compensate(workflow, execution);
     }
     execution.completedAt = new Date();
+    await this.executions.save(execution);
+    this.notifyCompleted(execution);
+  }
+
+  /**
+   * Run the branches of a parallel step concurrently until each reaches the join step
+   *
+   * Branch results are left in `context.branches` for the join step to merge.
+   */
+  private async executeParallel(
+    workflow: WorkflowDefinition,
+    stepDef: WorkflowStepDefinition,
+    context: StepExecutionContext,
+    execution: WorkflowExecution
+  ): Promise<void> {
+    const joinStep = stepDef.onSuccess ? this.findStep(workflow, stepDef.onSuccess) : undefined;
+    if (!joinStep || joinStep.type !== 'join') {
+      throw new Error(`Parallel step ${stepDef.id} must continue with a join step`);
+    }
+    const branchIds: string[] = stepDef.config?.branches || [];
+    if (branchIds.length === 0) {
+      throw new Error(`Parallel step ${stepDef.id} has no branches`);
+    }
+
+    // A resumed execution keeps the entry recorded before the restart
+    let step = execution.steps.find((s) => s.id === stepDef.id && s.status === WorkflowStepStatus.RUNNING);
+    if (!step) {
+      step = {
+        id: stepDef.id,
+        name: stepDef.name,
+        status: WorkflowStepStatus.RUNNING,
+        input: { ...context },
+        output: { branches: branchIds },
+        startedAt: new Date(),
+      };
+      execution.steps.push(step);
+    }
+
+    // Branches checkpointed before a restart continue where they stopped
+    const branches = execution.branches || {};
+    branchIds.forEach((branchId) => {
+      branches[branchId] = branches[branchId] || {
+        currentStepId: branchId,
+        status: WorkflowStepStatus.RUNNING,
+        output: {},
+      };
+    });
+    execution.branches = branches;
+    await this.executions.save(execution);
+
+    const waitForAny = joinStep.config?.mode === 'any';
+    const isSettled = () =>
+      this.cancelled.has(execution.id) ||
+      (waitForAny && branchIds.some((branchId) => branches[branchId].status === WorkflowStepStatus.SUCCESS));
+
+    await Promise.all(
+      branchIds.map((branchId) =>
+        this.executeBranch(workflow, joinStep.id, branchId, branches[branchId], context, execution, isSettled)
+      )
+    );
+
+    context.branches = branches;
+    execution.branches = undefined;
+    step.status = WorkflowStepStatus.SUCCESS;
+    step.completedAt = new Date();
+  }
+
+  /**
+   * Run one branch until it reaches the join step, runs out of steps or fails
+   *
+   * Branches stop before their next step once `isSettled` reports that the join no longer needs them
+   * or the execution was cancelled.
+   */
+  private async executeBranch(
+    workflow: WorkflowDefinition,
+    joinStepId: string,
+    branchId: string,
+    branch: WorkflowBranch,
+    context: StepExecutionContext,
+    execution: WorkflowExecution,
+    isSettled: () => boolean
+  ): Promise<void> {
+    // Each branch sees the context from before the fork plus its own outputs
+    const branchContext: StepExecutionContext = { ...context, ...branch.output };
+
+    try {
+      while (branch.currentStepId && branch.currentStepId !== joinStepId) {
+        if (isSettled()) {
+          branch.status = WorkflowStepStatus.SKIPPED;
+          break;
+        }
+
+        const stepDef = this.findStep(workflow, branch.currentStepId);
+        if (stepDef.type === 'parallel') {
+          throw new Error(`Parallel step ${stepDef.id} cannot run inside a branch`);
+        }
+
+        const { step, result } = await this.executeStep(stepDef, branchContext, execution);
+        step.branch = branchId;
+        execution.steps.push(step);
+
+        if (step.status === WorkflowStepStatus.FAILED) {
+          branch.status = WorkflowStepStatus.FAILED;
+          branch.error = step.error;
+          break;
+        }
+
+        if (step.output) {
+          Object.assign(branchContext, step.output);
+          Object.assign(branch.output, step.output);
+        }
+
+        delete execution.attempts?.[stepDef.id];
+        branch.currentStepId = result && 'nextStepId' in result ? result.nextStepId : stepDef.onSuccess;
+
+        // Delays inside a branch wait in memory, a restart runs the delay step again
+        if (result?.waitUntil && branch.currentStepId) {
+          const delay = Math.max(0, result.waitUntil.getTime() - Date.now());
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+
+        await this.executions.save(execution);
+      }
+    } catch (error) {
+      branch.status = WorkflowStepStatus.FAILED;
+      branch.error = (error as Error).message;
+    }
+
+    if (branch.status === WorkflowStepStatus.RUNNING) {
+      branch.status = WorkflowStepStatus.SUCCESS;
+    }
+    branch.currentStepId = undefined;
+    await this.executions.save(execution);
+  }
+
+  /**
+   * Find a step definition, throwing if the workflow does not define it
+   */
+  private findStep(workflow: WorkflowDefinition, stepId: string): WorkflowStepDefinition {
+    const stepDef = workflow.steps.find((s) => s.id === stepId);
+    if (!stepDef) {
+      throw new Error(`Step ${stepId} not found in workflow ${workflow.id}`);
+    }
+    return stepDef;
   }
 
   /**
@@ -130,17 +545,17 @@ export class WorkflowEngine {
   private async executeStep(
     stepDef: WorkflowStepDefinition,
     context: StepExecutionContext,
-    providers: Map<string, IProvider>,
     execution: WorkflowExecution
-  ): Promise<WorkflowStep> {
+  ): Promise<{ step: WorkflowStep; result?: StepExecutionResult }> {
     const step: WorkflowStep = {
       id: stepDef.id,
       name: stepDef.name,
       status: WorkflowStepStatus.RUNNING,
       provider: stepDef.provider,
-      input: context,
+      input: { ...context },
       startedAt: new Date(),
     };
+    let result: StepExecutionResult | undefined;
 
     try {
       const executor = this.stepExecutors.get(stepDef.type);
@@ -148,30 +563,55 @@ export class WorkflowEngine {
         throw new Error(`No executor found for step type: ${stepDef.type}`);
       }
 
-      let attempts = 0;
-      const maxAttempts = stepDef.retry?.maxAttempts || 1;
-      const retryDelay = stepDef.retry?.delay || 0;
+      // Templates see the same fields as condition expressions plus every step's result so far
+      const renderedStep: WorkflowStepDefinition = {
+        ...stepDef,
+        config: renderTemplates(stepDef.config, {
+          ...context.input,
+          ...context,
+          steps: this.stepResults(execution),
+        }),
+      };
 
-      while (attempts < maxAttempts) {
+      const attempts = execution.attempts || {};
+      const retry = stepDef.retry;
+      const maxAttempts = retry?.maxAttempts || 1;
+      step.attempts = [];
+
+      while ((attempts[stepDef.id] || 0) < maxAttempts) {
+        // Persist the attempt count before running so retries survive a restart
+        attempts[stepDef.id] = (attempts[stepDef.id] || 0) + 1;
+        await this.executions.save(execution);
+
+        const attempt: WorkflowStepAttempt = { attempt: attempts[stepDef.id], startedAt: new Date() };
+        step.attempts.push(attempt);
+
+        // Providers are looked up per attempt, those configured after the run was scheduled count too
+        const running = executor.execute(renderedStep, context, this.getProviders(), execution);
         try {
-          const result = await executor.execute(stepDef, context, providers);
+          result = await withTimeout(running, stepDef.timeout, stepDef.id);
+          attempt.completedAt = new Date();
           step.status = WorkflowStepStatus.SUCCESS;
           step.output = result.output;
           step.completedAt = new Date();
-
-          // Update context for next step
-          if (result.nextStepId) {
-            // This will be handled by the workflow executor
-          }
-
           break;
         } catch (error) {
-          attempts++;
-          if (attempts >= maxAttempts) {
+          attempt.completedAt = new Date();
+          attempt.error = (error as Error).message;
+          if ((error as Error).name === STEP_TIMEOUT_ERROR) {
+            this.recordAbandonedAttempt(attempt, running, stepDef, step, execution);
+          }
+          if (
+            !retry ||
+            attempts[stepDef.id] >= maxAttempts ||
+            this.cancelled.has(execution.id) ||
+            !isRetryable(retry, error)
+          ) {
             throw error;
           }
-          if (retryDelay > 0) {
-            await new Promise((resolve) => setTimeout(resolve, retryDelay));
+          const delay = retryDelay(retry, attempts[stepDef.id]);
+          if (delay > 0) {
+            await new Promise((resolve) => setTimeout(resolve, delay));
           }
         }
       }
@@ -181,14 +621,271 @@ export class WorkflowEngine {
       step.completedAt = new Date();
     }
 
-    return step;
+    return { step, result };
+  }
+
+  /**
+   * Keep track of a timed out attempt whose call is still running
+   *
+   * The output of a call that succeeds afterwards is recorded on the attempt and
+   * compensated like a successful step, e.g. the order it created is cancelled, once the
+   * execution fails. If it already has, the compensation runs as soon as the output arrives.
+   */
+  private recordAbandonedAttempt(
+    attempt: WorkflowStepAttempt,
+    running: Promise<StepExecutionResult>,
+    stepDef: WorkflowStepDefinition,
+    step: WorkflowStep,
+    execution: WorkflowExecution
+  ): void {
+    attempt.timedOut = true;
+    running
+      .then(
+        async (late) => {
+          attempt.lateOutput = late.output || {};
+          // compensate() took its list of outputs when the execution failed, so this one is not on it
+          if (execution.status === WorkflowStepStatus.FAILED && stepDef.compensate) {
+            await this.compensateStep(stepDef, step, attempt.lateOutput, execution);
+          } else {
+            await this.executions.save(execution);
+          }
+        },
+        () => undefined
+      )
+      .catch((error) => {
+        console.error(`Failed to record late result of execution ${execution.id}:`, error);
+      });
+  }
+
+  /**
+   * Latest result of every step run so far, keyed by step ID, for `{{ steps.<id>... }}` templates
+   */
+  private stepResults(execution: WorkflowExecution): Record<string, Pick<WorkflowStep, 'status' | 'output' | 'error'>> {
+    const results: Record<string, Pick<WorkflowStep, 'status' | 'output' | 'error'>> = {};
+    execution.steps.filter((step) => !step.compensation).forEach((step) => {
+      results[step.id] = { status: step.status, output: step.output, error: step.error };
+    });
+    return results;
+  }
+
+  /**
+   * Find the workflow version an execution runs on
+   */
+  private async loadWorkflow(execution: WorkflowExecution): Promise<WorkflowDefinition | undefined> {
+    return await this.findWorkflow(execution.workflowId, execution.workflowVersion);
+  }
+
+  /**
+   * Find a registered workflow version, the latest version when no version is given
+   */
+  private async findWorkflow(workflowId: string, version?: number): Promise<WorkflowDefinition | undefined> {
+    return (
+      this.workflows.get(this.workflowKey(workflowId, version)) ||
+      (await this.resolveWorkflow?.(workflowId, version))
+    );
+  }
+
+  /**
+   * Run the child execution of a sub_workflow step
+   *
+   * A child still running for the same parent step, e.g. because the parent was
+   * resumed after a restart, is picked up instead of starting another one.
+   */
+  private async runChild(request: SubWorkflowRequest): Promise<WorkflowExecution> {
+    const workflow = await this.findWorkflow(request.workflowId, request.version);
+    if (!workflow) {
+      throw new Error(`Workflow ${request.workflowId} not found`);
+    }
+
+    // A workflow that starts itself, directly or through other workflows, would never finish
+    let ancestorId = request.parentExecutionId;
+    while (ancestorId) {
+      const ancestor = await this.executions.findById(ancestorId);
+      if (ancestor?.workflowId === workflow.id) {
+        throw new Error(`Workflow ${workflow.id} cannot run inside itself`);
+      }
+      ancestorId = ancestor?.parentExecutionId;
+    }
+
+    const [running] = request.parentExecutionId
+      ? await this.executions.findAll(
+          (execution) =>
+            execution.parentExecutionId === request.parentExecutionId &&
+            execution.parentStepId === request.parentStepId &&
+            execution.status === WorkflowStepStatus.RUNNING
+        )
+      : [];
+    const child =
+      running ||
+      (await this.execute(workflow, request.context, {
+        parentExecutionId: request.parentExecutionId,
+        parentStepId: request.parentStepId,
+      }));
+
+    return request.wait ? await this.waitForCompletion(child.id, request.parentExecutionId) : child;
+  }
+
+  /**
+   * Resolve once an execution is no longer RUNNING, including time it spends waiting on delay steps
+   */
+  private waitForCompletion(executionId: string, parentExecutionId?: string): Promise<WorkflowExecution> {
+    return new Promise((resolve, reject) => {
+      const waiter = { parentExecutionId, resolve };
+      this.completionWaiters.set(executionId, [...(this.completionWaiters.get(executionId) || []), waiter]);
+
+      // Registered before looking, so an execution finishing in between is not missed
+      this.executions.findById(executionId).then((execution) => {
+        if (!execution || execution.status !== WorkflowStepStatus.RUNNING) {
+          const waiters = (this.completionWaiters.get(executionId) || []).filter((w) => w !== waiter);
+          this.completionWaiters.set(executionId, waiters);
+          if (waiters.length === 0) {
+            this.completionWaiters.delete(executionId);
+          }
+          if (execution) {
+            resolve(execution);
+          } else {
+            reject(new Error(`Execution ${executionId} not found`));
+          }
+        }
+      }, reject);
+    });
+  }
+
+  /**
+   * Hand a finished execution to the parents waiting on it
+   */
+  private notifyCompleted(execution: WorkflowExecution): void {
+    this.completionWaiters.get(execution.id)?.forEach((waiter) => waiter.resolve(execution));
+    this.completionWaiters.delete(execution.id);
+  }
+
+  /**
+   * Cancel the children an execution's sub_workflow steps are waiting on
+   */
+  private async cancelAwaitedChildren(executionId: string): Promise<void> {
+    const children = Array.from(this.completionWaiters.entries())
+      .filter(([, waiters]) => waiters.some((waiter) => waiter.parentExecutionId === executionId))
+      .map(([childId]) => childId);
+
+    for (const childId of children) {
+      await this.cancel(childId).catch((error) => {
+        console.error(`Failed to cancel child execution ${childId}:`, error.message);
+      });
+    }
+  }
+
+  /**
+   * Mark an execution as failed, compensating its steps when the workflow is known
+   */
+  private async failExecution(
+    execution: WorkflowExecution,
+    error: string,
+    workflow?: WorkflowDefinition
+  ): Promise<void> {
+    execution.status = WorkflowStepStatus.FAILED;
+    execution.error = error;
+    execution.currentStepId = undefined;
+    try {
+      if (workflow) {
+        await this.compensate(workflow, execution);
+      }
+      execution.completedAt = new Date();
+      await this.executions.save(execution);
+    } catch (saveError) {
+      console.error(`Failed to save workflow execution ${execution.id}:`, saveError);
+    }
+    this.notifyCompleted(execution);
+  }
+
+  /**
+   * Run the compensations of a failed execution's successful steps, most recent step first
+   *
+   * Timed out attempts whose call succeeded afterwards are compensated too, once per attempt.
+   * Every compensation runs even if an earlier one failed, each is recorded in
+   * `execution.steps` with `compensation` set. The execution stays FAILED with its original error.
+   */
+  private async compensate(workflow: WorkflowDefinition, execution: WorkflowExecution): Promise<void> {
+    // Outputs are listed up front, timed out attempts that succeed later are compensated as they do
+    const pending = execution.steps
+      .filter((step) => !step.compensation)
+      .map((step) => ({
+        step,
+        stepDef: workflow.steps.find((s) => s.id === step.id),
+        outputs: [
+          ...(step.status === WorkflowStepStatus.SUCCESS ? [step.output] : []),
+          ...(step.attempts || []).flatMap((attempt) => (attempt.lateOutput ? [attempt.lateOutput] : [])),
+        ],
+      }));
+    // Attempts of the failed step must not count against compensations that reuse its ID
+    execution.attempts = {};
+
+    for (const { step, stepDef, outputs } of pending.reverse()) {
+      if (!stepDef?.compensate) {
+        continue;
+      }
+      for (const output of outputs) {
+        await this.compensateStep(stepDef, step, output, execution);
+      }
+    }
+  }
+
+  /**
+   * Run a step's compensation for one output of the step
+   */
+  private async compensateStep(
+    stepDef: WorkflowStepDefinition,
+    step: WorkflowStep,
+    output: Record<string, any> | undefined,
+    execution: WorkflowExecution
+  ): Promise<void> {
+    const compensate = stepDef.compensate!;
+    const compensation: WorkflowStepDefinition = {
+      id: stepDef.id,
+      name: `Compensate ${stepDef.name}`,
+      type: compensate.type,
+      provider: compensate.provider ?? stepDef.provider,
+      config: compensate.config,
+      retry: compensate.retry,
+      timeout: compensate.timeout,
+    };
+    const context: StepExecutionContext = { ...execution.context, ...output };
+
+    const { step: compensationStep } = await this.executeStep(compensation, context, execution);
+    compensationStep.compensation = true;
+    compensationStep.branch = step.branch;
+    execution.steps.push(compensationStep);
+    delete execution.attempts?.[stepDef.id];
+    await this.executions.save(execution);
   }
 
   /**
    * Get workflow execution by ID
    */
-  getExecution(executionId: string): WorkflowExecution | undefined {
-    return this.executions.get(executionId);
+  async getExecution(executionId: string): Promise<WorkflowExecution | undefined> {
+    return await this.executions.findById(executionId);
+  }
+
+  /**
+   * List executions matching a filter, most recently started first
+   */
+  async listExecutions(filter: WorkflowExecutionFilter = {}): Promise<WorkflowExecution[]> {
+    const executions = await this.executions.findAll(
+      (execution) =>
+        (!filter.workflowId || execution.workflowId === filter.workflowId) &&
+        (!filter.parentExecutionId || execution.parentExecutionId === filter.parentExecutionId) &&
+        (!filter.orderId || execution.orderId === filter.orderId) &&
+        (!filter.status || execution.status === filter.status) &&
+        (!filter.startedAfter || execution.startedAt >= filter.startedAfter) &&
+        (!filter.startedBefore || execution.startedAt < filter.startedBefore)
+    );
+    return executions.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  /**
+   * Key of a workflow version in the registered workflows
+   */
+  private workflowKey(workflowId: string, version?: number): string {
+    return version === undefined ? workflowId : `${workflowId}@${version}`;
   }
 
   /**
@@ -198,4 +895,3 @@ export class WorkflowEngine {
     return `exec-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 }
-
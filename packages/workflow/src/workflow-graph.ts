@@ -0,0 +1,143 @@
+import { WorkflowDefinition, WorkflowGraphFormat, WorkflowStepDefinition } from '@oneship/core';
+
+/**
+ * A possible move from one step to the next, `to` is unset where the workflow ends
+ */
+export interface WorkflowTransition {
+  from: string;
+  to?: string;
+  label: 'success' | 'failure' | 'true' | 'false' | 'branch';
+}
+
+/**
+ * Every move a step can make, following the same rules as the engine
+ *
+ * Condition steps go to `config.onTrue`/`config.onFalse` (default `onSuccess`/`onFailure`),
+ * parallel steps start each branch and continue with their join step. Other steps
+ * continue with `onSuccess`, or end the workflow without one, and may take `onFailure`.
+ */
+export function stepTransitions(step: WorkflowStepDefinition): WorkflowTransition[] {
+  if (step.type === 'condition') {
+    return [
+      { from: step.id, to: step.config?.onTrue ?? step.onSuccess, label: 'true' },
+      { from: step.id, to: step.config?.onFalse ?? step.onFailure, label: 'false' },
+    ];
+  }
+
+  const transitions: WorkflowTransition[] = [];
+  if (step.type === 'parallel' && Array.isArray(step.config?.branches)) {
+    step.config!.branches.forEach((branch: string) => {
+      transitions.push({ from: step.id, to: branch, label: 'branch' });
+    });
+  }
+  transitions.push({ from: step.id, to: step.onSuccess, label: 'success' });
+  if (step.onFailure !== undefined) {
+    transitions.push({ from: step.id, to: step.onFailure, label: 'failure' });
+  }
+  return transitions;
+}
+
+/**
+ * Render a workflow as a graph for review, e.g. in a pull request
+ */
+export function exportWorkflowGraph(workflow: WorkflowDefinition, format: WorkflowGraphFormat): string {
+  switch (format) {
+    case 'mermaid':
+      return toMermaid(workflow);
+    case 'dot':
+      return toDot(workflow);
+    default:
+      throw new Error(`Unsupported graph format: ${format}`);
+  }
+}
+
+/**
+ * Render a workflow as a Mermaid flowchart
+ */
+export function toMermaid(workflow: WorkflowDefinition): string {
+  // Step IDs may contain characters Mermaid reads as syntax, so nodes are numbered
+  const nodeIds = new Map(workflow.steps.map((step, index) => [step.id, `s${index}`]));
+  const lines = ['flowchart TD', '  start(("Start"))'];
+
+  workflow.steps.forEach((step) => {
+    const label = stepLabel(step).map(escapeMermaid).join('<br/>');
+    const [open, close] = step.type === 'condition' ? ['{', '}'] : isFlowStep(step) ? ['[[', ']]'] : ['[', ']'];
+    lines.push(`  ${nodeIds.get(step.id)}${open}"${label}"${close}`);
+  });
+
+  if (workflow.steps.length > 0) {
+    lines.push(`  start --> ${nodeIds.get(workflow.steps[0].id)}`);
+  }
+  workflow.steps.flatMap(stepTransitions).forEach((transition) => {
+    const to = transition.to && nodeIds.get(transition.to);
+    if (to) {
+      const arrow = transition.label === 'failure' || transition.label === 'false' ? '-.->' : '-->';
+      lines.push(`  ${nodeIds.get(transition.from)} ${arrow}|${transition.label}| ${to}`);
+    }
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render a workflow as a Graphviz DOT digraph
+ */
+export function toDot(workflow: WorkflowDefinition): string {
+  const stepIds = new Set(workflow.steps.map((step) => step.id));
+  const lines = [`digraph ${quoteDot(workflow.id)} {`, '  node [shape=box];', '  start [label="Start", shape=circle];'];
+
+  workflow.steps.forEach((step) => {
+    const shape = step.type === 'condition' ? ', shape=diamond' : isFlowStep(step) ? ', peripheries=2' : '';
+    lines.push(`  ${quoteDot(step.id)} [label=${quoteDot(stepLabel(step).join('\n'))}${shape}];`);
+  });
+
+  if (workflow.steps.length > 0) {
+    lines.push(`  start -> ${quoteDot(workflow.steps[0].id)};`);
+  }
+  workflow.steps.flatMap(stepTransitions).forEach((transition) => {
+    if (transition.to && stepIds.has(transition.to)) {
+      const style = transition.label === 'failure' || transition.label === 'false' ? ', style=dashed' : '';
+      lines.push(
+        `  ${quoteDot(transition.from)} -> ${quoteDot(transition.to)} [label=${quoteDot(transition.label)}${style}];`
+      );
+    }
+  });
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Lines describing a step: its name, type, the workflow it runs and its compensating action
+ */
+function stepLabel(step: WorkflowStepDefinition): string[] {
+  const lines = [step.name, step.provider ? `${step.type} (${step.provider})` : step.type];
+  if (step.type === 'sub_workflow' && step.config?.workflowId) {
+    lines.push(`runs ${step.config.workflowId}`);
+  }
+  if (step.compensate) {
+    lines.push(`compensate: ${step.compensate.type}`);
+  }
+  return lines;
+}
+
+/**
+ * Whether a step splits or merges the flow rather than doing work itself
+ */
+function isFlowStep(step: WorkflowStepDefinition): boolean {
+  return step.type === 'parallel' || step.type === 'join';
+}
+
+/**
+ * Escape text for a quoted Mermaid label
+ */
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
+
+/**
+ * Quote a DOT ID or label, keeping line breaks as DOT escapes
+ */
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WorkflowDefinition } from '@oneship/core';
+import { WorkflowRegistry } from './workflow-registry';
+import { DEFAULT_CREATE_ORDER_WORKFLOW } from './workflow-definition';
+
+function definition(name: string): WorkflowDefinition {
+  return {
+    id: 'notify',
+    name,
+    trigger: 'manual',
+    steps: [{ id: 'hook', name: 'Hook', type: 'webhook', config: { url: 'https://example.com/hook' } }],
+  };
+}
+
+describe('WorkflowRegistry', () => {
+  it('numbers every published version and serves the latest by default', async () => {
+    const registry = new WorkflowRegistry();
+    const first = await registry.create(definition('First'));
+    const second = await registry.update('notify', definition('Second'));
+
+    assert.equal(first.version, 1);
+    assert.equal(second.version, 2);
+    assert.equal((await registry.get('notify'))?.name, 'Second');
+    assert.equal((await registry.get('notify', 1))?.name, 'First');
+    assert.deepEqual(
+      (await registry.listVersions('notify'))?.map((version) => version.name),
+      ['First', 'Second']
+    );
+  });
+
+  it('keeps stored versions independent of the caller object', async () => {
+    const registry = new WorkflowRegistry();
+    const workflow = definition('First');
+    await registry.create(workflow);
+    workflow.steps[0].config!.url = 'https://changed.example.com';
+
+    assert.equal((await registry.get('notify', 1))?.steps[0].config?.url, 'https://example.com/hook');
+  });
+
+  it('resolves pinned versions of deleted workflows for running executions', async () => {
+    const registry = new WorkflowRegistry();
+    await registry.create(definition('First'));
+    await registry.update('notify', definition('Second'));
+    await registry.delete('notify');
+
+    assert.equal(await registry.get('notify'), undefined);
+    assert.equal(await registry.listVersions('notify'), undefined);
+    assert.equal((await registry.getPinned('notify', 1))?.name, 'First');
+    assert.equal(await registry.getPinned('notify'), undefined);
+  });
+
+  it('continues version numbers when a deleted workflow is created again', async () => {
+    const registry = new WorkflowRegistry();
+    await registry.create(definition('First'));
+    await registry.delete('notify');
+    const recreated = await registry.create(definition('Again'));
+
+    assert.equal(recreated.version, 2);
+    assert.equal((await registry.getPinned('notify', 1))?.name, 'First');
+  });
+
+  it('protects built-in workflows', async () => {
+    const registry = new WorkflowRegistry();
+    registry.registerBuiltIn(DEFAULT_CREATE_ORDER_WORKFLOW);
+    const id = DEFAULT_CREATE_ORDER_WORKFLOW.id;
+
+    assert.equal(await registry.get(id), DEFAULT_CREATE_ORDER_WORKFLOW);
+    await assert.rejects(registry.create({ ...definition('Copy'), id }), /is built in/);
+    await assert.rejects(registry.update(id, { ...definition('Copy'), id }), /cannot be changed/);
+    await assert.rejects(registry.delete(id), /cannot be deleted/);
+  });
+
+  it('rejects updates to unknown workflows or with a mismatched ID', async () => {
+    const registry = new WorkflowRegistry();
+    await assert.rejects(registry.update('notify', definition('Missing')), /Workflow notify not found/);
+    await registry.create(definition('First'));
+    await assert.rejects(registry.update('other', definition('First')), /does not match other/);
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  WorkflowDefinition,
+  WorkflowDefinitionRecord,
+  WorkflowDefinitionRepository,
+} from '@oneship/core';
+import { InMemoryRepository } from '@oneship/storage';
+
+/**
+ * Stores uploaded workflow definitions as immutable, numbered versions
+ *
+ * Built-in workflows are defined in code. They can be looked up like stored
+ * workflows but cannot be replaced or deleted.
+ */
+export class WorkflowRegistry {
+  private builtIn: Map<string, WorkflowDefinition> = new Map();
+
+  constructor(private definitions: WorkflowDefinitionRepository = new InMemoryRepository()) {}
+
+  /**
+   * Register a workflow defined in code
+   */
+  registerBuiltIn(workflow: WorkflowDefinition): void {
+    this.builtIn.set(workflow.id, workflow);
+  }
+
+  /**
+   * List the latest version of every workflow, built-in workflows first
+   */
+  async list(): Promise<WorkflowDefinition[]> {
+    const records = await this.definitions.findAll((record) => !record.deletedAt);
+    return [
+      ...Array.from(this.builtIn.values()),
+      ...records
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .map((record) => latestVersion(record)),
+    ];
+  }
+
+  /**
+   * Get a workflow, the latest version when no version is given
+   */
+  async get(workflowId: string, version?: number): Promise<WorkflowDefinition | undefined> {
+    const builtIn = this.builtIn.get(workflowId);
+    if (builtIn) {
+      return version === undefined || version === builtIn.version ? builtIn : undefined;
+    }
+
+    const record = await this.definitions.findById(workflowId);
+    if (!record || record.deletedAt) {
+      return undefined;
+    }
+    return version === undefined
+      ? latestVersion(record)
+      : record.versions.find((definition) => definition.version === version);
+  }
+
+  /**
+   * Get the exact workflow version an execution was started with, even if the workflow was deleted since
+   */
+  async getPinned(workflowId: string, version?: number): Promise<WorkflowDefinition | undefined> {
+    if (version === undefined) {
+      return await this.get(workflowId);
+    }
+
+    const record = await this.definitions.findById(workflowId);
+    return record?.versions.find((definition) => definition.version === version);
+  }
+
+  /**
+   * List every version of a stored workflow, oldest first
+   */
+  async listVersions(workflowId: string): Promise<WorkflowDefinition[] | undefined> {
+    const builtIn = this.builtIn.get(workflowId);
+    if (builtIn) {
+      return [builtIn];
+    }
+
+    const record = await this.definitions.findById(workflowId);
+    return record && !record.deletedAt ? record.versions : undefined;
+  }
+
+  /**
+   * Store a new workflow as version 1
+   *
+   * A workflow that was deleted can be created again, its version numbers continue where they left off.
+   */
+  async create(workflow: WorkflowDefinition): Promise<WorkflowDefinition> {
+    if (this.builtIn.has(workflow.id)) {
+      throw new Error(`Workflow ${workflow.id} is built in`);
+    }
+
+    const now = new Date();
+    const record = await this.definitions.findById(workflow.id);
+    if (record && !record.deletedAt) {
+      throw new Error(`Workflow ${workflow.id} already exists`);
+    }
+
+    const stored: WorkflowDefinitionRecord = record || {
+      id: workflow.id,
+      versions: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    stored.deletedAt = undefined;
+
+    return await this.publish(stored, workflow, now);
+  }
+
+  /**
+   * Publish a new version of a stored workflow
+   */
+  async update(workflowId: string, workflow: WorkflowDefinition): Promise<WorkflowDefinition> {
+    if (this.builtIn.has(workflowId)) {
+      throw new Error(`Workflow ${workflowId} is built in and cannot be changed`);
+    }
+    if (workflow.id !== workflowId) {
+      throw new Error(`Workflow ID ${workflow.id} does not match ${workflowId}`);
+    }
+
+    const record = await this.definitions.findById(workflowId);
+    if (!record || record.deletedAt) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    return await this.publish(record, workflow, new Date());
+  }
+
+  /**
+   * Delete a stored workflow, its versions are kept for executions pinned to them
+   */
+  async delete(workflowId: string): Promise<void> {
+    if (this.builtIn.has(workflowId)) {
+      throw new Error(`Workflow ${workflowId} is built in and cannot be deleted`);
+    }
+
+    const record = await this.definitions.findById(workflowId);
+    if (!record || record.deletedAt) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    record.deletedAt = new Date();
+    record.updatedAt = record.deletedAt;
+    await this.definitions.save(record);
+  }
+
+  /**
+   * Append a copy of the definition as the record's next version
+   */
+  private async publish(
+    record: WorkflowDefinitionRecord,
+    workflow: WorkflowDefinition,
+    now: Date
+  ): Promise<WorkflowDefinition> {
+    // Copy so later changes to the caller's object never reach a stored version
+    const definition: WorkflowDefinition = {
+      ...JSON.parse(JSON.stringify(workflow)),
+      version: record.versions.length + 1,
+    };
+
+    record.versions.push(definition);
+    record.updatedAt = now;
+    await this.definitions.save(record);
+
+    return definition;
+  }
+}
+
+/**
+ * Latest version of a stored workflow
+ */
+function latestVersion(record: WorkflowDefinitionRecord): WorkflowDefinition {
+  return record.versions[record.versions.length - 1];
+}
@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateWorkflowDefinition } from './workflow-validation';
+
+const STEP_TYPES = ['create_order', 'webhook', 'delay', 'condition', 'parallel', 'join'];
+
+function workflow(steps: any[], trigger: any = 'manual'): any {
+  return { id: 'checked', name: 'Checked', trigger, steps };
+}
+
+function hook(id: string, extra: Record<string, any> = {}): any {
+  return { id, name: id, type: 'webhook', config: { url: 'https://example.com/hook' }, ...extra };
+}
+
+function check(definition: any): void {
+  validateWorkflowDefinition(definition, STEP_TYPES);
+}
+
+describe('validateWorkflowDefinition', () => {
+  it('accepts a well formed workflow', () => {
+    assert.doesNotThrow(() =>
+      check(
+        workflow(
+          [
+            hook('first', { onSuccess: 'second', retry: { maxAttempts: 3, delay: 100, backoff: 'exponential' } }),
+            hook('second', { config: { url: 'https://example.com/{{ steps.first.output.success }}' } }),
+          ],
+          { event: 'order_updated', providers: ['zto'], statuses: ['exception'] }
+        )
+      )
+    );
+  });
+
+  it('reports every problem at once', () => {
+    assert.throws(
+      () => check({ id: 'bad id', name: '', trigger: 'manual', steps: [hook('a', { onSuccess: 'missing' })] }),
+      /id must be .*; name is required; step a: onSuccess refers to unknown step missing$/
+    );
+  });
+
+  it('rejects steps that cannot be reached', () => {
+    assert.throws(
+      () => check(workflow([hook('first'), hook('orphan')])),
+      /step orphan cannot be reached from the first step/
+    );
+  });
+
+  it('rejects loops that never end or have no delay', () => {
+    const endless = workflow([
+      hook('poll', { onSuccess: 'wait' }),
+      { id: 'wait', name: 'Wait', type: 'delay', onSuccess: 'poll' },
+    ]);
+    assert.throws(() => check(endless), /steps poll, wait form a loop that never ends/);
+
+    const busy = workflow([
+      hook('poll', { onSuccess: 'check' }),
+      {
+        id: 'check',
+        name: 'Check',
+        type: 'condition',
+        config: { expression: 'done' },
+        onSuccess: 'end',
+        onFailure: 'poll',
+      },
+      hook('end'),
+    ]);
+    assert.throws(() => check(busy), (error: Error) => {
+      assert.match(error.message, /steps poll, check form a loop without a delay step/);
+      assert.doesNotMatch(error.message, /never ends/);
+      return true;
+    });
+  });
+
+  it('rejects invalid retry policies and timeouts', () => {
+    assert.throws(
+      () => check(workflow([hook('a', { retry: { maxAttempts: 0, delay: 0 } })])),
+      /step a: retry needs a positive integer maxAttempts/
+    );
+    assert.throws(
+      () => check(workflow([hook('a', { retry: { maxAttempts: 3, delay: 500, maxDelay: 100, multiplier: 0.5 } })])),
+      /retry.multiplier must be a number of at least 1; step a: retry.maxDelay must be a number no smaller than delay/
+    );
+    assert.throws(() => check(workflow([hook('a', { timeout: -1 })])), /step a: timeout must be a positive number/);
+  });
+
+  it('rejects retrying timed out create_order steps', () => {
+    const createOrder = (retryOn: string[]): any =>
+      workflow([
+        { id: 'book', name: 'Book', type: 'create_order', timeout: 5000, retry: { maxAttempts: 3, delay: 0, retryOn } },
+      ]);
+
+    assert.throws(
+      () => check(createOrder(['TimeoutError'])),
+      /step book: create_order steps with a timeout cannot retry TimeoutError/
+    );
+    assert.doesNotThrow(() => check(createOrder(['ECONNRESET'])));
+  });
+
+  it('rejects templates with unknown steps or unbalanced braces', () => {
+    assert.throws(
+      () => check(workflow([hook('a', { config: { url: '{{ steps.missing.output.url }}' } })])),
+      /step a: template "steps.missing.output.url" refers to unknown step missing/
+    );
+    assert.throws(
+      () => check(workflow([hook('a', { config: { url: 'https://example.com/{{ order.id }' } })])),
+      /step a: Unbalanced template braces in config.url/
+    );
+  });
+
+  it('rejects unknown triggers and filters that can never match', () => {
+    assert.throws(() => check(workflow([hook('a')], 'order_deleted')), /trigger must be one of manual, order_created/);
+    assert.throws(
+      () => check(workflow([hook('a')], { event: 'manual', providers: ['zto'] })),
+      /manual triggers cannot have filters/
+    );
+    assert.throws(
+      () => check(workflow([hook('a')], { event: 'free_shipping_detected', statuses: ['delivered'] })),
+      /free_shipping_detected triggers cannot filter on order status/
+    );
+    assert.throws(
+      () => check(workflow([hook('a')], { event: 'order_updated', statuses: ['shipped-ish'] })),
+      /trigger statuses must be a list of/
+    );
+  });
+});
@@ -0,0 +1,451 @@
+import { OrderStatus, WorkflowDefinition, WorkflowTriggerEvent } from '@oneship/core';
+import { parseExpression } from './expression';
+import { STEP_TIMEOUT_ERROR } from './retry-policy';
+import { findTemplatePaths } from './template';
+import { stepTransitions } from './workflow-graph';
+
+/**
+ * Events a workflow can be triggered by
+ */
+export const WORKFLOW_TRIGGERS: WorkflowTriggerEvent[] = [
+  'manual',
+  'order_created',
+  'order_updated',
+  'free_shipping_detected',
+];
+
+/**
+ * Step types that only steer the execution, so they have nothing to compensate and cannot compensate
+ */
+const CONTROL_STEP_TYPES = ['condition', 'delay', 'parallel', 'join'];
+
+/**
+ * Config fields of built-in step types, with the type of each and whether the step needs it
+ *
+ * Parallel branches and join modes are checked separately.
+ */
+const STEP_CONFIG_FIELDS: Record<
+  string,
+  Record<string, { type: 'string' | 'number' | 'boolean' | 'object'; required?: boolean }>
+> = {
+  condition: {
+    expression: { type: 'string', required: true },
+    onTrue: { type: 'string' },
+    onFalse: { type: 'string' },
+  },
+  webhook: { url: { type: 'string' }, event: { type: 'string' } },
+  delay: { delay: { type: 'number' } },
+  cancel_order: { orderId: { type: 'string' } },
+  sub_workflow: {
+    workflowId: { type: 'string', required: true },
+    version: { type: 'number' },
+    input: { type: 'object' },
+    wait: { type: 'boolean' },
+  },
+};
+
+/**
+ * Workflow IDs are used in URLs, so keep them to a safe character set
+ */
+const WORKFLOW_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+/**
+ * Check an uploaded workflow definition, throwing with every problem found
+ *
+ * `stepTypes` are the step types that have an executor registered.
+ */
+export function validateWorkflowDefinition(
+  workflow: any,
+  stepTypes: string[]
+): asserts workflow is WorkflowDefinition {
+  if (!isPlainObject(workflow)) {
+    throw new Error('Invalid workflow definition: expected an object');
+  }
+
+  const problems: string[] = [];
+
+  if (typeof workflow.id !== 'string' || !WORKFLOW_ID_PATTERN.test(workflow.id)) {
+    problems.push('id must be 1-64 letters, digits, "-" or "_"');
+  }
+  if (typeof workflow.name !== 'string' || !workflow.name.trim()) {
+    problems.push('name is required');
+  }
+  if (workflow.description !== undefined && typeof workflow.description !== 'string') {
+    problems.push('description must be a string');
+  }
+  problems.push(...validateTrigger(workflow.trigger));
+
+  if (!Array.isArray(workflow.steps) || workflow.steps.length === 0) {
+    problems.push('steps must be a non-empty array');
+  } else {
+    const stepsById = new Map<string, any>();
+    workflow.steps.forEach((step: any) => {
+      if (isPlainObject(step) && typeof step.id === 'string' && step.id) {
+        if (stepsById.has(step.id)) {
+          problems.push(`step ${step.id} is defined more than once`);
+        }
+        stepsById.set(step.id, step);
+      }
+    });
+
+    workflow.steps.forEach((step: any, index: number) => {
+      problems.push(...validateStep(step, index, stepsById, stepTypes));
+    });
+
+    // The flow can only be followed once every step is well formed
+    if (problems.length === 0) {
+      problems.push(...validateFlow(workflow.steps));
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid workflow definition: ${problems.join('; ')}`);
+  }
+}
+
+/**
+ * Check a trigger event name or trigger with filters, returning its problems
+ */
+function validateTrigger(trigger: any): string[] {
+  const event = isPlainObject(trigger) ? trigger.event : trigger;
+  if (!WORKFLOW_TRIGGERS.includes(event)) {
+    return [`trigger must be one of ${WORKFLOW_TRIGGERS.join(', ')}`];
+  }
+  if (!isPlainObject(trigger)) {
+    return [];
+  }
+
+  const problems: string[] = [];
+  if (trigger.event === 'manual' && (trigger.providers !== undefined || trigger.statuses !== undefined)) {
+    problems.push('manual triggers cannot have filters');
+  }
+  if (
+    trigger.providers !== undefined &&
+    (!Array.isArray(trigger.providers) || !trigger.providers.every((p: unknown) => typeof p === 'string'))
+  ) {
+    problems.push('trigger providers must be a list of provider IDs');
+  }
+  if (trigger.statuses !== undefined) {
+    const statuses = Object.values(OrderStatus) as string[];
+    if (!Array.isArray(trigger.statuses) || !trigger.statuses.every((s: unknown) => statuses.includes(s as string))) {
+      problems.push(`trigger statuses must be a list of ${statuses.join(', ')}`);
+    } else if (trigger.event === 'free_shipping_detected') {
+      problems.push('free_shipping_detected triggers cannot filter on order status');
+    }
+  }
+  return problems;
+}
+
+/**
+ * Check a single step, returning its problems
+ */
+function validateStep(step: any, index: number, stepsById: Map<string, any>, stepTypes: string[]): string[] {
+  if (!isPlainObject(step)) {
+    return [`steps[${index}] must be an object`];
+  }
+  if (typeof step.id !== 'string' || !step.id) {
+    return [`steps[${index}].id is required`];
+  }
+
+  const problems: string[] = [];
+  const label = `step ${step.id}`;
+
+  if (typeof step.name !== 'string' || !step.name.trim()) {
+    problems.push(`${label}: name is required`);
+  }
+  if (!stepTypes.includes(step.type)) {
+    problems.push(`${label}: type must be one of ${stepTypes.join(', ')}`);
+  }
+  if (step.provider !== undefined && typeof step.provider !== 'string') {
+    problems.push(`${label}: provider must be a string`);
+  }
+  if (step.config !== undefined && !isPlainObject(step.config)) {
+    problems.push(`${label}: config must be an object`);
+  } else {
+    problems.push(...validateTemplates(step.config, label, stepsById));
+  }
+
+  const targets: Record<string, unknown> = {
+    onSuccess: step.onSuccess,
+    onFailure: step.onFailure,
+  };
+  problems.push(...validateConfigFields(step, label));
+  if (step.type === 'condition') {
+    targets.onTrue = step.config?.onTrue;
+    targets.onFalse = step.config?.onFalse;
+
+    if (typeof step.config?.expression === 'string') {
+      try {
+        parseExpression(step.config.expression);
+      } catch (error) {
+        problems.push(`${label}: ${(error as Error).message}`);
+      }
+    }
+  }
+  if (step.type === 'parallel') {
+    const branches = step.config?.branches;
+    if (!Array.isArray(branches) || branches.length === 0) {
+      problems.push(`${label}: config.branches must list the first step of every branch`);
+    } else {
+      branches.forEach((branch: unknown, i: number) => {
+        targets[`branches[${i}]`] = branch;
+      });
+    }
+    if (stepsById.get(step.onSuccess)?.type !== 'join') {
+      problems.push(`${label}: onSuccess must be the join step the branches lead to`);
+    }
+  }
+  if (step.type === 'join' && step.config?.mode !== undefined && !['all', 'any'].includes(step.config.mode)) {
+    problems.push(`${label}: config.mode must be all or any`);
+  }
+  Object.entries(targets).forEach(([field, target]) => {
+    if (target !== undefined && (typeof target !== 'string' || !stepsById.has(target))) {
+      problems.push(`${label}: ${field} refers to unknown step ${target}`);
+    }
+  });
+
+  problems.push(...validateRetry(step.retry, `${label}: retry`));
+  if (step.timeout !== undefined && !isPositiveNumber(step.timeout)) {
+    problems.push(`${label}: timeout must be a positive number of milliseconds`);
+  }
+  // A create_order call that timed out may still book its waybill, a retry would book a second one
+  const retryOn = step.retry?.retryOn;
+  if (step.type === 'create_order' && step.timeout !== undefined && Array.isArray(retryOn)) {
+    if (retryOn.includes(STEP_TIMEOUT_ERROR)) {
+      problems.push(`${label}: create_order steps with a timeout cannot retry ${STEP_TIMEOUT_ERROR}`);
+    }
+  }
+  if (step.compensate !== undefined) {
+    problems.push(...validateCompensation(step, label, stepsById, stepTypes));
+  }
+
+  return problems;
+}
+
+/**
+ * Check the config fields a built-in step type reads, returning their problems
+ *
+ * A field may also be a single template, its value is only known when the step runs.
+ */
+function validateConfigFields(step: Record<string, any>, label: string): string[] {
+  const fields = STEP_CONFIG_FIELDS[step.type] || {};
+  const config = isPlainObject(step.config) ? step.config : {};
+
+  return Object.entries(fields).flatMap(([field, rule]) => {
+    const value = config[field];
+    if (value === undefined) {
+      return rule.required ? [`${label}: config.${field} is required for ${step.type} steps`] : [];
+    }
+    const isTemplate = typeof value === 'string' && /^\{\{[^{}]*\}\}$/.test(value);
+    if (typeof value !== rule.type && !isTemplate) {
+      return [`${label}: config.${field} must be ${rule.type === 'object' ? 'an' : 'a'} ${rule.type}`];
+    }
+    if (rule.type === 'number' && typeof value === 'number' && value < 0) {
+      return [`${label}: config.${field} must not be negative`];
+    }
+    return [];
+  });
+}
+
+/**
+ * Check how steps lead into each other, returning unreachable steps and loops that cannot end
+ */
+function validateFlow(steps: Array<Record<string, any>>): string[] {
+  const problems: string[] = [];
+  const transitions = new Map(steps.map((step) => [step.id as string, stepTransitions(step as any)]));
+
+  const reachable = new Set<string>([steps[0].id]);
+  const queue: string[] = [steps[0].id];
+  while (queue.length > 0) {
+    transitions.get(queue.shift()!)!.forEach(({ to }) => {
+      if (to !== undefined && !reachable.has(to)) {
+        reachable.add(to);
+        queue.push(to);
+      }
+    });
+  }
+  steps
+    .filter((step) => !reachable.has(step.id))
+    .forEach((step) => problems.push(`step ${step.id} cannot be reached from the first step`));
+
+  findLoops(steps, transitions).forEach((loop) => {
+    const ids = loop.join(', ');
+    const canExit = loop.some((stepId) =>
+      transitions.get(stepId)!.some(({ to }) => to === undefined || !loop.includes(to))
+    );
+    if (!canExit) {
+      problems.push(`steps ${ids} form a loop that never ends`);
+    }
+    if (!loop.some((stepId) => steps.find((step) => step.id === stepId)!.type === 'delay')) {
+      problems.push(`steps ${ids} form a loop without a delay step`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Groups of steps that can lead back to themselves, each in workflow order
+ *
+ * Uses Tarjan's algorithm for strongly connected components.
+ */
+function findLoops(steps: Array<Record<string, any>>, transitions: Map<string, Array<{ to?: string }>>): string[][] {
+  const order = new Map(steps.map((step, index) => [step.id as string, index]));
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const loops: string[][] = [];
+
+  const visit = (stepId: string): void => {
+    index.set(stepId, index.size);
+    lowLink.set(stepId, index.get(stepId)!);
+    stack.push(stepId);
+
+    transitions.get(stepId)!.forEach(({ to }) => {
+      if (to === undefined) {
+        return;
+      }
+      if (!index.has(to)) {
+        visit(to);
+        lowLink.set(stepId, Math.min(lowLink.get(stepId)!, lowLink.get(to)!));
+      } else if (stack.includes(to)) {
+        lowLink.set(stepId, Math.min(lowLink.get(stepId)!, index.get(to)!));
+      }
+    });
+
+    if (lowLink.get(stepId) === index.get(stepId)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        component.push(member);
+      } while (member !== stepId);
+
+      const selfLoop = transitions.get(stepId)!.some(({ to }) => to === stepId);
+      if (component.length > 1 || selfLoop) {
+        loops.push(component.sort((a, b) => order.get(a)! - order.get(b)!));
+      }
+    }
+  };
+
+  steps.forEach((step) => {
+    if (!index.has(step.id)) {
+      visit(step.id);
+    }
+  });
+  return loops;
+}
+
+/**
+ * Check a step's compensating action, returning its problems
+ */
+function validateCompensation(
+  step: Record<string, any>,
+  label: string,
+  stepsById: Map<string, any>,
+  stepTypes: string[]
+): string[] {
+  const compensate = step.compensate;
+  if (!isPlainObject(compensate)) {
+    return [`${label}: compensate must be an object`];
+  }
+  if (CONTROL_STEP_TYPES.includes(step.type)) {
+    return [`${label}: ${step.type} steps cannot be compensated`];
+  }
+
+  const problems: string[] = [];
+  const actionTypes = stepTypes.filter((type) => !CONTROL_STEP_TYPES.includes(type));
+  if (!actionTypes.includes(compensate.type)) {
+    problems.push(`${label}: compensate.type must be one of ${actionTypes.join(', ')}`);
+  }
+  if (compensate.provider !== undefined && typeof compensate.provider !== 'string') {
+    problems.push(`${label}: compensate.provider must be a string`);
+  }
+  if (compensate.config !== undefined && !isPlainObject(compensate.config)) {
+    problems.push(`${label}: compensate.config must be an object`);
+  } else {
+    problems.push(...validateTemplates(compensate.config, label, stepsById, 'compensate.config'));
+  }
+  problems.push(...validateRetry(compensate.retry, `${label}: compensate.retry`));
+  if (compensate.timeout !== undefined && !isPositiveNumber(compensate.timeout)) {
+    problems.push(`${label}: compensate.timeout must be a positive number of milliseconds`);
+  }
+  return problems;
+}
+
+/**
+ * Check an optional retry policy, returning its problems prefixed with `label`
+ */
+function validateRetry(retry: any, label: string): string[] {
+  if (retry === undefined) {
+    return [];
+  }
+  if (
+    !isPlainObject(retry) ||
+    !Number.isInteger(retry.maxAttempts) ||
+    retry.maxAttempts < 1 ||
+    typeof retry.delay !== 'number' ||
+    retry.delay < 0
+  ) {
+    return [`${label} needs a positive integer maxAttempts and a non-negative delay`];
+  }
+
+  const problems: string[] = [];
+  if (retry.backoff !== undefined && !['fixed', 'exponential'].includes(retry.backoff)) {
+    problems.push(`${label}.backoff must be fixed or exponential`);
+  }
+  if (retry.multiplier !== undefined && !(typeof retry.multiplier === 'number' && retry.multiplier >= 1)) {
+    problems.push(`${label}.multiplier must be a number of at least 1`);
+  }
+  if (retry.maxDelay !== undefined && !(typeof retry.maxDelay === 'number' && retry.maxDelay >= retry.delay)) {
+    problems.push(`${label}.maxDelay must be a number no smaller than delay`);
+  }
+  if (retry.jitter !== undefined && typeof retry.jitter !== 'boolean') {
+    problems.push(`${label}.jitter must be true or false`);
+  }
+  ['retryOn', 'doNotRetryOn'].forEach((field) => {
+    const errors = retry[field];
+    if (errors !== undefined && (!Array.isArray(errors) || !errors.every((e: unknown) => typeof e === 'string'))) {
+      problems.push(`${label}.${field} must be a list of error names or codes`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * Whether a value is a finite number above zero
+ */
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Check the templates in a step config, returning their problems
+ *
+ * Other references depend on the execution input and can only be checked when the step runs.
+ */
+function validateTemplates(
+  config: any,
+  label: string,
+  stepsById: Map<string, any>,
+  location: string = 'config'
+): string[] {
+  let paths: string[];
+  try {
+    paths = findTemplatePaths(config, location);
+  } catch (error) {
+    return [`${label}: ${(error as Error).message}`];
+  }
+
+  return paths
+    .map((path) => path.split('.'))
+    .filter(([root, stepId]) => root === 'steps' && stepId !== undefined && !stepsById.has(stepId))
+    .map((segments) => `${label}: template "${segments.join('.')}" refers to unknown step ${segments[1]}`);
+}
+
+/**
+ * Whether a value is a plain JSON object
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}